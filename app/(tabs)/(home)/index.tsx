@@ -12,6 +12,7 @@ import {
   Image,
   ImageSourcePropType,
   Linking,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Location from 'expo-location';
@@ -19,6 +20,17 @@ import * as SMS from 'expo-sms';
 import { IconSymbol } from '@/components/IconSymbol';
 import { colors } from '@/styles/commonStyles';
 import { useTripContext } from '@/contexts/TripContext';
+import { buildTripGpx } from '@/utils/gpx';
+
+// Accuracy, altitude, heading and speed help searchers size the search area
+function formatGpsDetails(coords: Location.LocationObjectCoords): string {
+  const parts: string[] = [];
+  if (coords.accuracy != null) parts.push(`±${Math.round(coords.accuracy)} m`);
+  if (coords.altitude != null) parts.push(`alt ${Math.round(coords.altitude)} m`);
+  if (coords.heading != null && coords.heading >= 0) parts.push(`heading ${Math.round(coords.heading)}°`);
+  if (coords.speed != null && coords.speed >= 0) parts.push(`${(coords.speed * 3.6).toFixed(1)} km/h`);
+  return parts.length > 0 ? `\nGPS: ${parts.join(', ')}` : '';
+}
 
 // Helper to resolve image sources (handles both local require() and remote URLs)
 function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
@@ -27,6 +39,21 @@ function resolveImageSource(source: string | number | ImageSourcePropType | unde
   return source as ImageSourcePropType;
 }
 
+// What the app can tell about a message handed to the phone's SMS app. Only
+// iOS reports back whether the user actually sent it.
+type MessageOutcome = 'sent' | 'unconfirmed' | 'failed';
+
+interface ContactDelivery {
+  name: string;
+  phoneNumber: string;
+  outcome: MessageOutcome;
+}
+
+// Wrong safety PINs allowed before cancelling an SOS is locked for a while,
+// matching the backend's limits
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MINUTES = 15;
+
 interface FeedbackModal {
   visible: boolean;
   title: string;
@@ -35,13 +62,14 @@ interface FeedbackModal {
 }
 
 export default function HomeScreen() {
-  const { activeTrip, elapsedTime, setActiveTrip, emergencyContacts, setEmergencyContacts } = useTripContext();
+  const { activeTrip, elapsedTime, checkInRemaining, setActiveTrip, emergencyContacts, setEmergencyContacts } = useTripContext();
   
   const [hasLocationPermission, setHasLocationPermission] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<Location.LocationObject | null>(null);
   const [showStartModal, setShowStartModal] = useState(false);
   const [showContactModal, setShowContactModal] = useState(false);
   const [showSOSModal, setShowSOSModal] = useState(false);
+  const [showOpenTripModal, setShowOpenTripModal] = useState(false);
   const [showActivityDropdown, setShowActivityDropdown] = useState(false);
   const [loading, setLoading] = useState(false);
   const [checkInLoading, setCheckInLoading] = useState(false);
@@ -53,14 +81,22 @@ export default function HomeScreen() {
     type: 'info',
   });
   
-  const [selectedContactId, setSelectedContactId] = useState('');
+  const [selectedContactIds, setSelectedContactIds] = useState<string[]>([]);
   const [activityType, setActivityType] = useState('hiking');
   const [clothingDescription, setClothingDescription] = useState('');
   const [vehicleDescription, setVehicleDescription] = useState('');
+  const [plannedRoute, setPlannedRoute] = useState('');
+  const [checkInInterval, setCheckInInterval] = useState<number | null>(60);
+  const [safetyPin, setSafetyPin] = useState('');
+  const [cancelPin, setCancelPin] = useState('');
+  const pinFailuresRef = useRef({ count: 0, lockedUntil: 0 });
   
   const [newContactName, setNewContactName] = useState('');
   const [newContactPhone, setNewContactPhone] = useState('');
   
+  // Outcome of the last trip start or SOS message, per contact
+  const [lastDelivery, setLastDelivery] = useState<ContactDelivery[]>([]);
+
   const [sosHoldProgress, setSosHoldProgress] = useState(0);
   const [sosHolding, setSosHolding] = useState(false);
   const sosIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -265,17 +301,25 @@ export default function HomeScreen() {
 
   const startTrip = async () => {
     console.log('[HomeScreen] Start Trip button pressed');
+
+    // Only one trip can be open at a time
+    if (activeTrip) {
+      console.log('[HomeScreen] A trip is already open, offering to resume or end it');
+      setShowStartModal(false);
+      setShowOpenTripModal(true);
+      return;
+    }
     console.log('[HomeScreen] Current state:', {
-      selectedContactId,
+      selectedContactIds,
       clothingDescription,
       vehicleDescription,
       hasLocation: !!currentLocation,
       emergencyContactsCount: emergencyContacts.length
     });
 
-    if (!selectedContactId) {
+    if (selectedContactIds.length === 0) {
       console.log('[HomeScreen] Validation failed - no contact selected');
-      showFeedback('No Contact Selected', 'Please select an emergency contact', 'error');
+      showFeedback('No Contact Selected', 'Please select at least one emergency contact', 'error');
       return;
     }
     
@@ -291,6 +335,12 @@ export default function HomeScreen() {
       return;
     }
     
+    if (!/^\d{4,8}$/.test(safetyPin)) {
+      console.log('[HomeScreen] Validation failed - no valid safety PIN');
+      showFeedback('Missing Information', 'Choose a safety PIN of 4 to 8 digits. You will need it to cancel an SOS.', 'error');
+      return;
+    }
+    
     if (!currentLocation) {
       console.log('[HomeScreen] Validation failed - no current location');
       showFeedback('Location Unavailable', 'Unable to get current location. Please try again.', 'error');
@@ -303,39 +353,66 @@ export default function HomeScreen() {
     try {
       const { latitude, longitude } = currentLocation.coords;
       
-      const selectedContact = emergencyContacts.find(c => c.id === selectedContactId);
-      if (!selectedContact) {
-        throw new Error('Selected contact not found');
-      }
+      // The first contact selected is the primary (tier 1); the rest are backups (tier 2)
+      const selectedContacts = selectedContactIds.map((contactId, index) => {
+        const contact = emergencyContacts.find(c => c.id === contactId);
+        if (!contact) {
+          throw new Error('Selected contact not found');
+        }
+        return {
+          name: contact.name,
+          phoneNumber: contact.phoneNumber,
+          tier: index === 0 ? 1 : 2,
+        };
+      });
 
+      const startTime = new Date().toISOString();
       const newTrip = {
         id: Date.now().toString(),
         activityType,
-        startTime: new Date().toISOString(),
+        startTime,
         status: 'active',
         lastLatitude: latitude,
         lastLongitude: longitude,
-        emergencyContact: {
-          name: selectedContact.name,
-          phoneNumber: selectedContact.phoneNumber,
-        },
+        emergencyContacts: selectedContacts,
         clothingDescription: clothingDescription.trim(),
         vehicleDescription: vehicleDescription.trim(),
+        plannedRoute: plannedRoute.trim(),
+        checkInIntervalMinutes: checkInInterval,
+        lastCheckInTime: startTime,
+        safetyPin,
+        track: [{
+          latitude,
+          longitude,
+          altitude: currentLocation.coords.altitude,
+          time: startTime,
+          kind: 'start' as const,
+        }],
       };
       
       console.log('[HomeScreen] Trip created successfully', newTrip);
       setActiveTrip(newTrip);
       
       console.log('[HomeScreen] Sending initial SMS');
-      await sendSMS(selectedContact.phoneNumber, 'start', latitude, longitude);
+      const outcome = await sendSMS(selectedContacts.map(c => c.phoneNumber), 'start', latitude, longitude);
+      setLastDelivery(selectedContacts.map(c => ({ name: c.name, phoneNumber: c.phoneNumber, outcome })));
       
       console.log('[HomeScreen] Closing modal and resetting form');
       setShowStartModal(false);
       setClothingDescription('');
       setVehicleDescription('');
-      setSelectedContactId('');
+      setPlannedRoute('');
+      setSafetyPin('');
+      pinFailuresRef.current = { count: 0, lockedUntil: 0 };
+      setSelectedContactIds([]);
       
-      showFeedback('Trip Started', 'Your trip has been started and your emergency contact has been notified.', 'success');
+      if (outcome === 'failed') {
+        showFeedback('Trip Started', 'Your trip has started, but the message to your contacts was not sent. Try calling them.', 'error');
+      } else if (outcome === 'unconfirmed') {
+        showFeedback('Trip Started', 'Your trip has started. Check your messages app to make sure the message to your contacts was sent.', 'info');
+      } else {
+        showFeedback('Trip Started', 'Your trip has been started and your emergency contacts have been notified.', 'success');
+      }
     } catch (error: any) {
       console.error('[HomeScreen] Error starting trip:', error);
       showFeedback('Error', error.message || 'Failed to start trip', 'error');
@@ -373,16 +450,22 @@ export default function HomeScreen() {
       const { latitude, longitude } = location.coords;
       console.log('[HomeScreen] Got location for check-in', { latitude, longitude });
       
+      const checkInTime = new Date().toISOString();
       const updatedTrip = {
         ...activeTrip,
         lastLatitude: latitude,
         lastLongitude: longitude,
+        lastCheckInTime: checkInTime,
+        track: [
+          ...activeTrip.track,
+          { latitude, longitude, altitude: location.coords.altitude, time: checkInTime, kind: 'checkin' as const },
+        ],
       };
       
       setActiveTrip(updatedTrip);
       
       console.log('[HomeScreen] Opening SMS for check-in notification');
-      await sendSMS(activeTrip.emergencyContact.phoneNumber, 'update', latitude, longitude);
+      await sendSMS(activeTrip.emergencyContacts.map(c => c.phoneNumber), 'update', latitude, longitude, location.coords);
       
       setCurrentLocation(location);
       showFeedback('Check In Sent', 'Your updated location has been sent to your emergency contact.', 'success');
@@ -414,6 +497,12 @@ export default function HomeScreen() {
     if (!activeTrip) {
       return;
     }
+
+    // Ending the trip would leave contacts thinking the SOS still stands
+    if (activeTrip.status === 'sos') {
+      showFeedback('SOS Active', 'Cancel the SOS with your safety PIN before completing the trip.', 'error');
+      return;
+    }
     
     console.log('[HomeScreen] Completing trip', activeTrip.id);
     setLoading(true);
@@ -421,11 +510,12 @@ export default function HomeScreen() {
     try {
       if (currentLocation) {
         const { latitude, longitude } = currentLocation.coords;
-        await sendSMS(activeTrip.emergencyContact.phoneNumber, 'complete', latitude, longitude);
+        await sendSMS(activeTrip.emergencyContacts.map(c => c.phoneNumber), 'complete', latitude, longitude);
       }
       
       console.log('[HomeScreen] Trip completed successfully');
       setActiveTrip(null);
+      setLastDelivery([]);
       showFeedback('Trip Complete', 'Your trip has been completed and your emergency contact has been notified.', 'success');
     } catch (error: any) {
       console.error('[HomeScreen] Error completing trip:', error);
@@ -451,24 +541,109 @@ export default function HomeScreen() {
         status: 'sos',
         lastLatitude: latitude,
         lastLongitude: longitude,
+        track: [
+          ...activeTrip.track,
+          {
+            latitude,
+            longitude,
+            altitude: currentLocation.coords.altitude,
+            time: new Date().toISOString(),
+            kind: 'sos' as const,
+          },
+        ],
       };
       
       console.log('[HomeScreen] SOS triggered successfully', updatedTrip);
       setActiveTrip(updatedTrip);
       
-      await sendSMS(activeTrip.emergencyContact.phoneNumber, 'sos', latitude, longitude);
+      const outcome = await sendSMS(activeTrip.emergencyContacts.map(c => c.phoneNumber), 'sos', latitude, longitude, currentLocation.coords);
+      setLastDelivery(activeTrip.emergencyContacts.map(c => ({ name: c.name, phoneNumber: c.phoneNumber, outcome })));
       
-      setShowSOSModal(false);
-      showFeedback('SOS Sent', 'Emergency message has been sent to your contact. Help is on the way!', 'error');
+      // Keep the modal open so an accidental SOS can be called off straight away
     } catch (error: any) {
       console.error('[HomeScreen] Error triggering SOS:', error);
+      setShowSOSModal(false);
       showFeedback('Error', error.message || 'Failed to send SOS', 'error');
     } finally {
       setLoading(false);
     }
   };
 
-  const sendSMS = async (phoneNumber: string, type: 'start' | 'update' | 'complete' | 'sos', lat: number, lon: number) => {
+  const cancelSOS = async () => {
+    if (!activeTrip || activeTrip.status !== 'sos') {
+      return;
+    }
+
+    // Someone else holding the phone must not be able to call off the SOS
+    const failures = pinFailuresRef.current;
+    if (failures.lockedUntil > Date.now()) {
+      const minutes = Math.ceil((failures.lockedUntil - Date.now()) / 60000);
+      showFeedback('Too Many Attempts', `Too many wrong PINs. Try again in ${minutes} min.`, 'error');
+      return;
+    }
+
+    if (cancelPin !== activeTrip.safetyPin) {
+      failures.count += 1;
+      if (failures.count >= MAX_PIN_FAILURES) {
+        pinFailuresRef.current = { count: 0, lockedUntil: Date.now() + PIN_LOCKOUT_MINUTES * 60000 };
+      }
+      console.log('[HomeScreen] SOS cancel rejected - wrong safety PIN', { failures: failures.count });
+      setCancelPin('');
+      showFeedback('Incorrect PIN', 'The SOS is still active. Enter your safety PIN to cancel it.', 'error');
+      return;
+    }
+
+    console.log('[HomeScreen] Cancelling SOS as a false alarm');
+    pinFailuresRef.current = { count: 0, lockedUntil: 0 };
+    setCancelPin('');
+    setLoading(true);
+
+    try {
+      const latitude = currentLocation?.coords.latitude ?? activeTrip.lastLatitude;
+      const longitude = currentLocation?.coords.longitude ?? activeTrip.lastLongitude;
+      const outcome = await sendSMS(activeTrip.emergencyContacts.map(c => c.phoneNumber), 'allclear', latitude, longitude);
+
+      // Contacts still think there is an emergency until the all clear goes out
+      if (outcome === 'failed') {
+        showFeedback('All Clear Not Sent', 'Your SOS is still active because the all clear could not be sent. Try again or call your contacts.', 'error');
+        return;
+      }
+
+      // The SOS point stays in the track so the trip history shows what happened
+      setActiveTrip({ ...activeTrip, status: 'active' });
+      setShowSOSModal(false);
+      if (outcome === 'unconfirmed') {
+        showFeedback('SOS Cancelled', 'Check your messages app to make sure the all clear was sent to your contacts.', 'info');
+      } else {
+        showFeedback('SOS Cancelled', 'Your contacts have been sent an all clear.', 'success');
+      }
+    } catch (error: any) {
+      console.error('[HomeScreen] Error cancelling SOS:', error);
+      showFeedback('Error', error.message || 'Failed to cancel SOS', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shareTrack = async () => {
+    if (!activeTrip) {
+      return;
+    }
+
+    console.log('[HomeScreen] Sharing GPX track', { points: activeTrip.track.length });
+
+    try {
+      await Share.share({
+        title: `${activeTrip.activityType} trip track (GPX)`,
+        message: buildTripGpx(activeTrip),
+      });
+    } catch (error: any) {
+      console.error('[HomeScreen] Error sharing GPX track:', error);
+      showFeedback('Share Failed', error.message || 'Unable to share the trip track', 'error');
+    }
+  };
+
+  const sendSMS = async (phoneNumbers: string[], type: 'start' | 'update' | 'complete' | 'sos' | 'allclear', lat: number, lon: number, coords?: Location.LocationObjectCoords): Promise<MessageOutcome> => {
     try {
       const mapsUrl = `https://maps.google.com/?q=${lat},${lon}`;
       let message = '';
@@ -476,23 +651,40 @@ export default function HomeScreen() {
       const activityName = activityType.charAt(0).toUpperCase() + activityType.slice(1);
       const clothingInfo = clothingDescription ? `\nClothing: ${clothingDescription}` : '';
       const vehicleInfo = vehicleDescription ? `\nVehicle: ${vehicleDescription}` : '';
+      const gpsInfo = coords ? formatGpsDetails(coords) : '';
+      // The form is cleared once the trip starts, so later messages read it from the trip
+      const routeName = plannedRoute.trim() || activeTrip?.plannedRoute;
+      const routeInfo = routeName ? `\nPlanned route: ${routeName}` : '';
       
       if (type === 'start') {
-        message = `🚨 SAFETY ALERT: I'm starting a ${activityName} trip.\nLocation: ${mapsUrl}${clothingInfo}${vehicleInfo}`;
+        message = `🚨 SAFETY ALERT: I'm starting a ${activityName} trip.\nLocation: ${mapsUrl}${routeInfo}${clothingInfo}${vehicleInfo}`;
       } else if (type === 'update') {
-        message = `📍 Location Update: Still on my ${activityName} trip.\nCurrent location: ${mapsUrl}`;
+        message = `📍 Location Update: Still on my ${activityName} trip.\nCurrent location: ${mapsUrl}${gpsInfo}`;
       } else if (type === 'complete') {
         message = `✅ Trip Complete: I've safely finished my ${activityName} trip.\nFinal location: ${mapsUrl}`;
       } else if (type === 'sos') {
-        message = `🆘 EMERGENCY SOS: I need help!\nActivity: ${activityName}\nLocation: ${mapsUrl}${clothingInfo}${vehicleInfo}\nPlease call emergency services!`;
+        message = `🆘 EMERGENCY SOS: I need help!\nActivity: ${activityName}\nLocation: ${mapsUrl}${gpsInfo}${routeInfo}${clothingInfo}${vehicleInfo}\nPlease call emergency services!`;
+      } else if (type === 'allclear') {
+        message = `✅ ALL CLEAR — FALSE ALARM: My SOS was sent by mistake. I'm OK and don't need help.\nLocation: ${mapsUrl}`;
       }
       
-      console.log('[HomeScreen] Opening SMS app', { type, phoneNumber, messageLength: message.length });
+      console.log('[HomeScreen] Opening SMS app', { type, phoneNumbers, messageLength: message.length });
+
+      if (Platform.OS !== 'web' && await SMS.isAvailableAsync()) {
+        const { result } = await SMS.sendSMSAsync(phoneNumbers, message);
+        console.log('[HomeScreen] SMS composer closed', { result });
+        if (result === 'sent') return 'sent';
+        if (result === 'cancelled') return 'failed';
+        return 'unconfirmed';
+      }
       
+      const recipients = phoneNumbers.join(',');
       const smsUrl = Platform.select({
-        ios: `sms:${phoneNumber}&body=${encodeURIComponent(message)}`,
-        android: `sms:${phoneNumber}?body=${encodeURIComponent(message)}`,
-        default: `sms:${phoneNumber}?body=${encodeURIComponent(message)}`,
+        ios: phoneNumbers.length > 1
+          ? `sms:/open?addresses=${recipients}&body=${encodeURIComponent(message)}`
+          : `sms:${recipients}&body=${encodeURIComponent(message)}`,
+        android: `sms:${recipients}?body=${encodeURIComponent(message)}`,
+        default: `sms:${recipients}?body=${encodeURIComponent(message)}`,
       });
       
       const canOpen = await Linking.canOpenURL(smsUrl);
@@ -500,14 +692,16 @@ export default function HomeScreen() {
       if (canOpen) {
         await Linking.openURL(smsUrl);
         console.log('[HomeScreen] SMS app opened successfully');
-      } else {
-        console.log('[HomeScreen] Cannot open SMS URL');
-        showFeedback(
-          'SMS Unavailable',
-          'Unable to open SMS app. Please send the message manually.',
-          'error'
-        );
+        return 'unconfirmed';
       }
+
+      console.log('[HomeScreen] Cannot open SMS URL');
+      showFeedback(
+        'SMS Unavailable',
+        'Unable to open SMS app. Please send the message manually.',
+        'error'
+      );
+      return 'failed';
     } catch (error) {
       console.error('[HomeScreen] Error opening SMS:', error);
       showFeedback(
@@ -515,9 +709,41 @@ export default function HomeScreen() {
         'Failed to open SMS app. Your trip is still being tracked.',
         'error'
       );
+      return 'failed';
     }
   };
 
+  const callContact = (phoneNumber: string) => {
+    console.log('[HomeScreen] Calling contact', { phoneNumber });
+    Linking.openURL(`tel:${phoneNumber}`).catch((error) => {
+      console.error('[HomeScreen] Error starting call:', error);
+      showFeedback('Call Failed', `Unable to call ${phoneNumber}`, 'error');
+    });
+  };
+
+  const renderDeliveryStatus = () => (
+    <View style={styles.deliveryList}>
+      {lastDelivery.map((delivery) => (
+        delivery.outcome === 'failed' ? (
+          <TouchableOpacity key={delivery.phoneNumber} onPress={() => callContact(delivery.phoneNumber)}>
+            <Text style={[styles.deliveryText, styles.deliveryTextFailed]}>
+              Not sent to {delivery.name} — try calling
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <Text
+            key={delivery.phoneNumber}
+            style={[styles.deliveryText, delivery.outcome === 'sent' && styles.deliveryTextSent]}
+          >
+            {delivery.outcome === 'sent'
+              ? `Sent to ${delivery.name} ✓`
+              : `Check Messages to confirm it went to ${delivery.name}`}
+          </Text>
+        )
+      ))}
+    </View>
+  );
+
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -530,6 +756,13 @@ export default function HomeScreen() {
     return `${hoursStr}:${minutesStr}:${secsStr}`;
   };
 
+  const formatCheckInCountdown = (seconds: number): string => {
+    if (seconds <= 0) {
+      return 'Check-in overdue';
+    }
+    return `Next in ${formatTime(seconds)}`;
+  };
+
   const handleSOSPressIn = () => {
     console.log('[HomeScreen] SOS button press started');
     setSosHolding(true);
@@ -592,6 +825,13 @@ export default function HomeScreen() {
     }
   };
 
+  const checkInIntervals = [
+    { value: null, label: 'Off' },
+    { value: 30, label: '30 min' },
+    { value: 60, label: '1 hr' },
+    { value: 120, label: '2 hr' },
+  ];
+
   const activityTypes = [
     { value: 'hiking', label: 'Hiking' },
     { value: 'biking', label: 'Mountain Biking' },
@@ -646,7 +886,8 @@ export default function HomeScreen() {
             </View>
 
             <Text style={styles.activityType}>{activeTrip.activityType.charAt(0).toUpperCase() + activeTrip.activityType.slice(1)}</Text>
-            <Text style={styles.contactName}>{activeTrip.emergencyContact.name}</Text>
+            <Text style={styles.contactName}>{activeTrip.emergencyContacts.map(c => c.name).join(', ')}</Text>
+            {lastDelivery.length > 0 && renderDeliveryStatus()}
 
             <View style={styles.buttonRow}>
               <TouchableOpacity
@@ -657,7 +898,14 @@ export default function HomeScreen() {
                 {checkInLoading ? (
                   <ActivityIndicator color="#FFFFFF" size="small" />
                 ) : (
-                  <Text style={styles.actionButtonText}>Check In</Text>
+                  <>
+                    <Text style={styles.actionButtonText}>Check In</Text>
+                    {checkInRemaining !== null && (
+                      <Text style={[styles.checkInCountdownText, checkInRemaining <= 0 && styles.checkInCountdownOverdue]}>
+                        {formatCheckInCountdown(checkInRemaining)}
+                      </Text>
+                    )}
+                  </>
                 )}
               </TouchableOpacity>
 
@@ -674,19 +922,33 @@ export default function HomeScreen() {
               </TouchableOpacity>
             </View>
 
-            <TouchableOpacity
-              style={[styles.actionButton, styles.sosButton, { marginTop: 10, overflow: 'hidden' }]}
-              onPressIn={handleSOSPressIn}
-              onPressOut={handleSOSPressOut}
-              disabled={loading}
-              activeOpacity={0.8}
-            >
-              {sosHolding && (
-                <View style={[styles.sosProgressBar, { width: sosProgressPercent }]} />
-              )}
-              <Text style={styles.actionButtonText}>
-                {sosHolding ? `Hold SOS (${sosRemainingSeconds}s)` : 'Hold SOS (5s)'}
-              </Text>
+            {activeTrip.status === 'sos' ? (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.cancelSosButton, { marginTop: 10 }]}
+                onPress={() => setShowSOSModal(true)}
+                disabled={loading}
+              >
+                <Text style={styles.actionButtonText}>I&apos;m OK – Cancel SOS</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.sosButton, { marginTop: 10, overflow: 'hidden' }]}
+                onPressIn={handleSOSPressIn}
+                onPressOut={handleSOSPressOut}
+                disabled={loading}
+                activeOpacity={0.8}
+              >
+                {sosHolding && (
+                  <View style={[styles.sosProgressBar, { width: sosProgressPercent }]} />
+                )}
+                <Text style={styles.actionButtonText}>
+                  {sosHolding ? `Hold SOS (${sosRemainingSeconds}s)` : 'Hold SOS (5s)'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.shareTrackButton} onPress={shareTrack}>
+              <Text style={styles.shareTrackButtonText}>Share GPX Track</Text>
             </TouchableOpacity>
           </View>
         ) : (
@@ -767,23 +1029,29 @@ export default function HomeScreen() {
               </View>
             )}
 
-            <Text style={styles.inputLabel}>Emergency Contact *</Text>
+            <Text style={styles.inputLabel}>Emergency Contacts *</Text>
             <View style={styles.contactList}>
               {emergencyContacts.map((contact) => {
-                const isSelected = selectedContactId === contact.id;
+                const selectedIndex = selectedContactIds.indexOf(contact.id);
+                const isSelected = selectedIndex !== -1;
                 return (
                   <TouchableOpacity
                     key={contact.id}
                     style={[styles.contactOption, isSelected && styles.contactOptionSelected]}
                     onPress={() => {
-                      console.log('[HomeScreen] Contact selected:', contact.id, contact.name);
-                      setSelectedContactId(contact.id);
+                      console.log('[HomeScreen] Contact toggled:', contact.id, contact.name);
+                      setSelectedContactIds(isSelected
+                        ? selectedContactIds.filter(id => id !== contact.id)
+                        : [...selectedContactIds, contact.id]);
                     }}
                   >
                     <View style={styles.contactInfo}>
                       <Text style={[styles.contactNameText, isSelected && styles.contactNameSelected]}>{contact.name}</Text>
                       <Text style={[styles.contactPhone, isSelected && styles.contactPhoneSelected]}>{contact.phoneNumber}</Text>
                     </View>
+                    {isSelected && (
+                      <Text style={styles.contactTierText}>{selectedIndex === 0 ? 'Primary' : 'Backup'}</Text>
+                    )}
                     {isSelected && (
                       <IconSymbol ios_icon_name="checkmark" android_material_icon_name="check" size={20} color="#FFFFFF" />
                     )}
@@ -802,6 +1070,25 @@ export default function HomeScreen() {
               <Text style={styles.addContactLinkText}>+ Add New Contact</Text>
             </TouchableOpacity>
 
+            <Text style={styles.inputLabel}>Check-In Interval</Text>
+            <View style={styles.intervalRow}>
+              {checkInIntervals.map((interval) => {
+                const isSelected = checkInInterval === interval.value;
+                return (
+                  <TouchableOpacity
+                    key={interval.label}
+                    style={[styles.intervalOption, isSelected && styles.intervalOptionSelected]}
+                    onPress={() => {
+                      console.log('[HomeScreen] Check-in interval selected:', interval.value);
+                      setCheckInInterval(interval.value);
+                    }}
+                  >
+                    <Text style={[styles.intervalOptionText, isSelected && styles.intervalOptionTextSelected]}>{interval.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
             <Text style={styles.inputLabel}>Clothing Description *</Text>
             <TextInput
               style={styles.input}
@@ -826,6 +1113,27 @@ export default function HomeScreen() {
               placeholderTextColor={colors.textSecondary}
             />
 
+            <Text style={styles.inputLabel}>Planned Route</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., Loop Trail, 14 km"
+              value={plannedRoute}
+              onChangeText={setPlannedRoute}
+              placeholderTextColor={colors.textSecondary}
+            />
+
+            <Text style={styles.inputLabel}>Safety PIN *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="4 to 8 digits, needed to cancel an SOS"
+              value={safetyPin}
+              onChangeText={setSafetyPin}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={8}
+              placeholderTextColor={colors.textSecondary}
+            />
+
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={[styles.modalButton, styles.modalButtonSecondary]}
@@ -913,28 +1221,103 @@ export default function HomeScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <IconSymbol ios_icon_name="exclamationmark.triangle" android_material_icon_name="warning" size={48} color={colors.danger} style={styles.sosIcon} />
-            <Text style={styles.sosModalTitle}>Send SOS?</Text>
-            <Text style={styles.sosModalText}>
-              This will send an emergency message to your contact with your current location.
+            {activeTrip?.status === 'sos' ? (
+              <>
+                <Text style={styles.sosModalTitle}>SOS Sent</Text>
+                {renderDeliveryStatus()}
+                <Text style={styles.sosModalText}>
+                  If this was a mistake, enter your safety PIN to send your contacts an all clear.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Safety PIN"
+                  value={cancelPin}
+                  onChangeText={setCancelPin}
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  maxLength={8}
+                  placeholderTextColor={colors.textSecondary}
+                />
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalButtonSecondary]}
+                    onPress={() => setShowSOSModal(false)}
+                  >
+                    <Text style={styles.modalButtonTextSecondary}>Close</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.cancelSosButton]}
+                    onPress={cancelSOS}
+                    disabled={loading}
+                  >
+                    {loading ? (
+                      <ActivityIndicator color="#FFFFFF" size="small" />
+                    ) : (
+                      <Text style={styles.modalButtonText}>I&apos;m OK</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={styles.sosModalTitle}>Send SOS?</Text>
+                <Text style={styles.sosModalText}>
+                  This will send an emergency message to your contact with your current location.
+                </Text>
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalButtonSecondary]}
+                    onPress={() => setShowSOSModal(false)}
+                  >
+                    <Text style={styles.modalButtonTextSecondary}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.sosConfirmButton]}
+                    onPress={triggerSOS}
+                    disabled={loading}
+                  >
+                    {loading ? (
+                      <ActivityIndicator color="#FFFFFF" size="small" />
+                    ) : (
+                      <Text style={styles.modalButtonText}>Send SOS</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Open Trip Modal */}
+      <Modal visible={showOpenTripModal} animationType="fade" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.feedbackTitle}>Trip Already Open</Text>
+            <Text style={styles.feedbackMessage}>
+              {activeTrip
+                ? `Your ${activeTrip.activityType} trip started at ${new Date(activeTrip.startTime).toLocaleTimeString()} is still open. Resume it or end it before starting a new one.`
+                : 'You already have an open trip.'}
             </Text>
 
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={[styles.modalButton, styles.modalButtonSecondary]}
-                onPress={() => setShowSOSModal(false)}
+                onPress={() => setShowOpenTripModal(false)}
               >
-                <Text style={styles.modalButtonTextSecondary}>Cancel</Text>
+                <Text style={styles.modalButtonTextSecondary}>Resume</Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.modalButton, styles.sosConfirmButton]}
-                onPress={triggerSOS}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+                onPress={() => {
+                  setShowOpenTripModal(false);
+                  completeTrip();
+                }}
                 disabled={loading}
               >
-                {loading ? (
-                  <ActivityIndicator color="#FFFFFF" size="small" />
-                ) : (
-                  <Text style={styles.modalButtonText}>Send SOS</Text>
-                )}
+                <Text style={styles.modalButtonText}>End Trip</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -1083,6 +1466,21 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginBottom: 12,
   },
+  deliveryList: {
+    marginBottom: 12,
+    gap: 4,
+  },
+  deliveryText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  deliveryTextSent: {
+    color: colors.success,
+  },
+  deliveryTextFailed: {
+    color: colors.danger,
+    fontWeight: '600',
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: 10,
@@ -1118,6 +1516,25 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     zIndex: 1,
   },
+  checkInCountdownText: {
+    color: '#E0F2FE',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  checkInCountdownOverdue: {
+    color: '#FEF3C7',
+    fontWeight: '600',
+  },
+  shareTrackButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 6,
+  },
+  shareTrackButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   startCard: {
     alignItems: 'center',
   },
@@ -1258,9 +1675,40 @@ const styles = StyleSheet.create({
   contactPhoneSelected: {
     color: '#E0F2FE',
   },
+  intervalRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  intervalOption: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  intervalOptionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  intervalOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  intervalOptionTextSelected: {
+    color: '#FFFFFF',
+  },
   contactNameSelected: {
     color: '#FFFFFF',
   },
+  contactTierText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+    marginRight: 8,
+  },
   addContactLink: {
     paddingVertical: 8,
     marginTop: 4,
@@ -1320,6 +1768,9 @@ const styles = StyleSheet.create({
   sosConfirmButton: {
     backgroundColor: colors.danger,
   },
+  cancelSosButton: {
+    backgroundColor: colors.primary,
+  },
   feedbackIconContainer: {
     alignSelf: 'center',
     marginBottom: 12,
@@ -0,0 +1,3 @@
+ALTER TABLE "trips" ADD COLUMN "expected_return_time" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "overdue_alert_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_overdue_alert_at" timestamp with time zone;
\ No newline at end of file
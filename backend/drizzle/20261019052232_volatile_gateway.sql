@@ -0,0 +1 @@
+ALTER TABLE "trips" ADD COLUMN "check_in_interval_minutes" integer;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "trip_emergency_contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"emergency_contact_id" uuid NOT NULL,
+	"tier" integer DEFAULT 1 NOT NULL,
+	"acknowledge_token" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"alerted_at" timestamp with time zone,
+	"acknowledged_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "trip_emergency_contacts_acknowledge_token_unique" UNIQUE("acknowledge_token"),
+	CONSTRAINT "trip_emergency_contacts_trip_id_emergency_contact_id_unique" UNIQUE("trip_id","emergency_contact_id")
+);
+--> statement-breakpoint
+ALTER TABLE "trips" DROP CONSTRAINT "trips_emergency_contact_id_emergency_contacts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "alert_raised_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "trip_emergency_contacts" ADD CONSTRAINT "trip_emergency_contacts_trip_id_trips_id_fk" FOREIGN KEY ("trip_id") REFERENCES "public"."trips"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trip_emergency_contacts" ADD CONSTRAINT "trip_emergency_contacts_emergency_contact_id_emergency_contacts_id_fk" FOREIGN KEY ("emergency_contact_id") REFERENCES "public"."emergency_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "trip_emergency_contacts" ("trip_id", "emergency_contact_id", "tier") SELECT "id", "emergency_contact_id", 1 FROM "trips";--> statement-breakpoint
+ALTER TABLE "trips" DROP COLUMN "emergency_contact_id";
\ No newline at end of file
@@ -0,0 +1,2 @@
+DELETE FROM "location_updates" a USING "location_updates" b WHERE a."trip_id" = b."trip_id" AND a."timestamp" = b."timestamp" AND a."id" > b."id";--> statement-breakpoint
+ALTER TABLE "location_updates" ADD CONSTRAINT "location_updates_trip_id_timestamp_unique" UNIQUE("trip_id","timestamp");
\ No newline at end of file
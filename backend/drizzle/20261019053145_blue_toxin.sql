@@ -0,0 +1,10 @@
+ALTER TABLE "location_updates" ADD COLUMN "accuracy" double precision;--> statement-breakpoint
+ALTER TABLE "location_updates" ADD COLUMN "altitude" double precision;--> statement-breakpoint
+ALTER TABLE "location_updates" ADD COLUMN "speed" double precision;--> statement-breakpoint
+ALTER TABLE "location_updates" ADD COLUMN "heading" double precision;--> statement-breakpoint
+ALTER TABLE "location_updates" ADD COLUMN "battery_level" double precision;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_accuracy" double precision;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_altitude" double precision;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_speed" double precision;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_heading" double precision;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_battery_level" double precision;
\ No newline at end of file
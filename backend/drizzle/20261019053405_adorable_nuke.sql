@@ -0,0 +1 @@
+ALTER TABLE "location_updates" ADD COLUMN "is_sos" boolean DEFAULT false NOT NULL;
\ No newline at end of file
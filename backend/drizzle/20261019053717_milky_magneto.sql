@@ -0,0 +1,12 @@
+CREATE TABLE "planned_routes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"format" text NOT NULL,
+	"distance_meters" double precision NOT NULL,
+	"coordinates" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "planned_route_id" uuid;--> statement-breakpoint
+ALTER TABLE "trips" ADD CONSTRAINT "trips_planned_route_id_planned_routes_id_fk" FOREIGN KEY ("planned_route_id") REFERENCES "public"."planned_routes"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "trips" ADD COLUMN "off_route_since" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "safety_pins" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"pin_hash" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
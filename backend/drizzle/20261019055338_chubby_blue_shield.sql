@@ -0,0 +1,2 @@
+UPDATE "trips" t SET "status" = 'cancelled', "end_time" = now() WHERE t."end_time" IS NULL AND EXISTS (SELECT 1 FROM "trips" newer WHERE newer."user_id" = t."user_id" AND newer."end_time" IS NULL AND newer."start_time" > t."start_time");--> statement-breakpoint
+CREATE UNIQUE INDEX "trips_one_open_per_user" ON "trips" USING btree ("user_id") WHERE "trips"."end_time" is null;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "notifications" ADD COLUMN "delivered_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "error_code" text;--> statement-breakpoint
+CREATE INDEX "notifications_provider_message_id_idx" ON "notifications" USING btree ("provider_message_id");
\ No newline at end of file
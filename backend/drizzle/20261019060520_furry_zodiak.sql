@@ -0,0 +1,19 @@
+CREATE TABLE "message_settings" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"gsm7" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"template_key" text NOT NULL,
+	"language" text NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "message_templates_user_id_template_key_language_unique" UNIQUE("user_id","template_key","language")
+);
+--> statement-breakpoint
+ALTER TABLE "emergency_contacts" ADD COLUMN "language" text DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE "emergency_contacts" ADD COLUMN "timezone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
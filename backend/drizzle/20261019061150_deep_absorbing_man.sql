@@ -0,0 +1,3 @@
+ALTER TABLE "trips" ADD COLUMN "location_update_policy" text DEFAULT 'every' NOT NULL;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "location_update_interval_minutes" integer;--> statement-breakpoint
+ALTER TABLE "trips" ADD COLUMN "last_location_notified_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "notifications" ALTER COLUMN "to_number" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "emergency_contacts" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "emergency_contacts" ADD COLUMN "notification_channel" text DEFAULT 'sms' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "channel" text DEFAULT 'sms' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "to_email" text;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "subject" text;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "html" text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "push_devices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"token" text NOT NULL,
+	"platform" text,
+	"phone_number" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "push_devices_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "to_push_token" text;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "link" text;--> statement-breakpoint
+ALTER TABLE "push_devices" ADD CONSTRAINT "push_devices_session_id_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."session"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "push_devices_user_id_idx" ON "push_devices" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "trips" ADD COLUMN "stats" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "reauth_attempts" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
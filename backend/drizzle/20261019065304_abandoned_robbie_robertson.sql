@@ -0,0 +1,4 @@
+ALTER TABLE "push_devices" ADD COLUMN "phone_verified_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "push_devices" ADD COLUMN "phone_code_hash" text;--> statement-breakpoint
+ALTER TABLE "push_devices" ADD COLUMN "phone_code_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "push_devices" ADD COLUMN "phone_code_attempts" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
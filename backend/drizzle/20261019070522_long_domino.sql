@@ -0,0 +1,2 @@
+-- Planned routes are stored as separate lines; existing routes become a single line
+UPDATE "planned_routes" SET "coordinates" = jsonb_build_array("coordinates") WHERE jsonb_typeof("coordinates" -> 0 -> 0) = 'number';
@@ -0,0 +1,3 @@
+ALTER TABLE "location_updates" ADD COLUMN "received_at" timestamp (3) with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Fixes stored before the column existed count as received when they were recorded
+UPDATE "location_updates" SET "received_at" = "timestamp";
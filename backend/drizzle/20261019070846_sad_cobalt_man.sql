@@ -0,0 +1,3 @@
+ALTER TABLE "trips" ADD COLUMN "last_check_in_at" timestamp (3) with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Trips started before the column existed last checked in with their last fix
+UPDATE "trips" SET "last_check_in_at" = "last_location_update";
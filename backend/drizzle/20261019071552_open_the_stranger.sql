@@ -0,0 +1,17 @@
+CREATE TABLE "phone_code_attempts" (
+	"phone_digits" text PRIMARY KEY NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "phone_code_sends" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"phone_digits" text NOT NULL,
+	"sent_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "phone_code_sends_user_id_idx" ON "phone_code_sends" USING btree ("user_id","sent_at");--> statement-breakpoint
+CREATE INDEX "phone_code_sends_phone_digits_idx" ON "phone_code_sends" USING btree ("phone_digits","sent_at");--> statement-breakpoint
+ALTER TABLE "push_devices" DROP COLUMN "phone_code_attempts";
\ No newline at end of file
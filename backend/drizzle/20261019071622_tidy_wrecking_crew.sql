@@ -0,0 +1,2 @@
+-- The escalation template was renamed from "escalated" to match its event type
+UPDATE "message_templates" SET "template_key" = 'escalation' WHERE "template_key" = 'escalated';
@@ -1,19 +1,77 @@
-import { pgTable, text, timestamp, uuid, decimal } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, timestamp, uuid, decimal, integer, doublePrecision, boolean, jsonb, unique, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { session } from './auth-schema.js';
+import type { TripStats } from '../../utils/trip-stats.js';
 
 export const emergencyContacts = pgTable('emergency_contacts', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
   name: text('name').notNull(),
   phoneNumber: text('phone_number').notNull(),
+  email: text('email'),
+  // How the contact is notified: 'sms', 'email' or 'both'
+  notificationChannel: text('notification_channel').default('sms').notNull(),
+  // Language of the messages this contact receives, e.g. 'en' or 'es'
+  language: text('language').default('en').notNull(),
+  // IANA time zone for times in messages, e.g. 'America/Denver'
+  timezone: text('timezone').default('UTC').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// PIN a user enters to cancel an SOS without signing in again
+export const safetyPins = pgTable('safety_pins', {
+  userId: text('user_id').primaryKey(),
+  pinHash: text('pin_hash').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Wrong safety PINs or passwords given in a row, to stop them being guessed
+export const reauthAttempts = pgTable('reauth_attempts', {
+  userId: text('user_id').primaryKey(),
+  failedAttempts: integer('failed_attempts').default(0).notNull(),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// A user's own wording for one message template in one language
+export const messageTemplates = pgTable('message_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  templateKey: text('template_key').notNull(),
+  language: text('language').notNull(),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.templateKey, table.language),
+]);
+
+export const messageSettings = pgTable('message_settings', {
+  userId: text('user_id').primaryKey(),
+  // Send plain GSM-7 text in compact wording so alerts fit one SMS segment
+  gsm7: boolean('gsm7').default(false).notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const plannedRoutes = pgTable('planned_routes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  // File format the route was uploaded in: 'gpx' or 'geojson'
+  format: text('format').notNull(),
+  distanceMeters: doublePrecision('distance_meters').notNull(),
+  // Route as separate lines of [longitude, latitude] pairs, like the
+  // coordinates of a GeoJSON MultiLineString
+  coordinates: jsonb('coordinates').$type<[number, number][][]>().notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
 export const trips = pgTable('trips', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
-  emergencyContactId: uuid('emergency_contact_id').notNull().references(() => emergencyContacts.id, { onDelete: 'cascade' }),
   activityType: text('activity_type').notNull(),
+  plannedRouteId: uuid('planned_route_id').references(() => plannedRoutes.id, { onDelete: 'set null' }),
   clothingDescription: text('clothing_description'),
   vehicleDescription: text('vehicle_description'),
   startTime: timestamp('start_time', { withTimezone: true }).notNull(),
@@ -24,8 +82,47 @@ export const trips = pgTable('trips', {
   lastLatitude: decimal('last_latitude', { precision: 10, scale: 8 }).notNull(),
   lastLongitude: decimal('last_longitude', { precision: 11, scale: 8 }).notNull(),
   lastLocationUpdate: timestamp('last_location_update', { withTimezone: true }).notNull(),
+  lastAccuracy: doublePrecision('last_accuracy'),
+  lastAltitude: doublePrecision('last_altitude'),
+  lastSpeed: doublePrecision('last_speed'),
+  lastHeading: doublePrecision('last_heading'),
+  lastBatteryLevel: doublePrecision('last_battery_level'),
+  expectedReturnTime: timestamp('expected_return_time', { withTimezone: true }),
+  overdueAlertCount: integer('overdue_alert_count').default(0).notNull(),
+  lastOverdueAlertAt: timestamp('last_overdue_alert_at', { withTimezone: true }),
+  checkInIntervalMinutes: integer('check_in_interval_minutes'),
+  // Last sign that the user is fine: a fix arriving, or resuming a paused
+  // trip. The check-in interval runs from here. Millisecond precision so the
+  // watchdog can match the value it read.
+  lastCheckInAt: timestamp('last_check_in_at', { withTimezone: true, precision: 3 }).defaultNow().notNull(),
+  alertRaisedAt: timestamp('alert_raised_at', { withTimezone: true }),
+  // Time of the first fix in the current stretch away from the planned route
+  offRouteSince: timestamp('off_route_since', { withTimezone: true }),
+  // How routine location updates reach contacts; alerts always go out at once
+  locationUpdatePolicy: text('location_update_policy').default('every').notNull(),
+  locationUpdateIntervalMinutes: integer('location_update_interval_minutes'),
+  lastLocationNotifiedAt: timestamp('last_location_notified_at', { withTimezone: true }),
+  // Summary stats, stored once the trip has ended and gets no more fixes
+  stats: jsonb('stats').$type<TripStats>(),
+  shareToken: uuid('share_token').defaultRandom().notNull().unique(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [
+  // A user has at most one trip that has not ended yet
+  uniqueIndex('trips_one_open_per_user').on(table.userId).where(sql`${table.endTime} is null`),
+]);
+
+export const tripEmergencyContacts = pgTable('trip_emergency_contacts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tripId: uuid('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
+  emergencyContactId: uuid('emergency_contact_id').notNull().references(() => emergencyContacts.id, { onDelete: 'cascade' }),
+  tier: integer('tier').default(1).notNull(),
+  acknowledgeToken: uuid('acknowledge_token').defaultRandom().notNull().unique(),
+  alertedAt: timestamp('alerted_at', { withTimezone: true }),
+  acknowledgedAt: timestamp('acknowledged_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.tripId, table.emergencyContactId),
+]);
 
 export const locationUpdates = pgTable('location_updates', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -33,18 +130,149 @@ export const locationUpdates = pgTable('location_updates', {
   latitude: decimal('latitude', { precision: 10, scale: 8 }).notNull(),
   longitude: decimal('longitude', { precision: 11, scale: 8 }).notNull(),
   timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+  // Horizontal accuracy radius and altitude in meters, speed in m/s,
+  // heading in degrees from true north, battery level from 0 to 1
+  accuracy: doublePrecision('accuracy'),
+  altitude: doublePrecision('altitude'),
+  speed: doublePrecision('speed'),
+  heading: doublePrecision('heading'),
+  batteryLevel: doublePrecision('battery_level'),
+  isSos: boolean('is_sos').default(false).notNull(),
+  // When the server stored the fix, which for a batch uploaded later is well
+  // after its timestamp. Millisecond precision so it round-trips through JSON.
+  receivedAt: timestamp('received_at', { withTimezone: true, precision: 3 }).defaultNow().notNull(),
+}, (table) => [
+  // A fix is identified by when the device recorded it, so replayed batches are ignored
+  unique().on(table.tripId, table.timestamp),
+]);
+
+// A signed-in device that receives push notifications. The device goes with
+// the session it was registered in, so signing out stops its notifications.
+export const pushDevices = pgTable('push_devices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  sessionId: text('session_id').notNull().references(() => session.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  // 'ios', 'android' or 'web'
+  platform: text('platform'),
+  // Number of this phone, so trips that list it as an emergency contact reach
+  // it once confirmed with the code texted to it
+  phoneNumber: text('phone_number'),
+  phoneVerifiedAt: timestamp('phone_verified_at', { withTimezone: true }),
+  // Hash of the code texted to phoneNumber while it is being confirmed
+  phoneCodeHash: text('phone_code_hash'),
+  phoneCodeExpiresAt: timestamp('phone_code_expires_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('push_devices_user_id_idx').on(table.userId),
+]);
+
+// Every code texted to confirm a phone number, to limit how many a user or a
+// number gets. Kept apart from the devices, so registering a device again
+// does not reset the limits.
+export const phoneCodeSends = pgTable('phone_code_sends', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  // The number's match digits, see getPhoneMatchDigits
+  phoneDigits: text('phone_digits').notNull(),
+  sentAt: timestamp('sent_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('phone_code_sends_user_id_idx').on(table.userId, table.sentAt),
+  index('phone_code_sends_phone_digits_idx').on(table.phoneDigits, table.sentAt),
+]);
+
+// Wrong codes entered for a phone number in a row, whichever device or code
+// they were for, to stop codes being guessed
+export const phoneCodeAttempts = pgTable('phone_code_attempts', {
+  phoneDigits: text('phone_digits').primaryKey(),
+  failedAttempts: integer('failed_attempts').default(0).notNull(),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Every message sent to an emergency contact, with its delivery state
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tripId: uuid('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
+  emergencyContactId: uuid('emergency_contact_id').references(() => emergencyContacts.id, { onDelete: 'set null' }),
+  // 'sms' messages go to toNumber, 'email' messages to toEmail and 'push'
+  // messages to toPushToken
+  channel: text('channel').default('sms').notNull(),
+  toNumber: text('to_number'),
+  toEmail: text('to_email'),
+  toPushToken: text('to_push_token'),
+  // Subject and HTML version of an email, or title of a push notification;
+  // the body is the plain text
+  subject: text('subject'),
+  html: text('html'),
+  // Page a push notification opens when tapped
+  link: text('link'),
+  // What the message is about, e.g. 'trip_started', 'sos' or 'overdue'
+  eventType: text('event_type').notNull(),
+  body: text('body').notNull(),
+  // 'queued' until a transport accepts it, then 'sent'. Providers that report
+  // delivery move it on to 'delivered' or 'undelivered'; 'failed' when it could
+  // not be sent at all
+  status: text('status').default('queued').notNull(),
+  transport: text('transport'),
+  providerMessageId: text('provider_message_id'),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  // When a queued message is tried next. While a send is in progress it is
+  // the end of that send's lease, after which another run may retry it
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  sentAt: timestamp('sent_at', { withTimezone: true }),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  // Carrier error code from the provider's delivery report
+  errorCode: text('error_code'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('notifications_trip_id_idx').on(table.tripId),
+  index('notifications_next_attempt_at_idx').on(table.nextAttemptAt),
+  index('notifications_provider_message_id_idx').on(table.providerMessageId),
+]);
+
+// Audit trail of every trip status change
+export const tripStatusTransitions = pgTable('trip_status_transitions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tripId: uuid('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
+  // Null for the transition that created the trip
+  fromStatus: text('from_status'),
+  toStatus: text('to_status').notNull(),
+  reason: text('reason').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
 export const emergencyContactsRelations = relations(emergencyContacts, ({ many }) => ({
+  trips: many(tripEmergencyContacts),
+}));
+
+export const plannedRoutesRelations = relations(plannedRoutes, ({ many }) => ({
   trips: many(trips),
 }));
 
 export const tripsRelations = relations(trips, ({ one, many }) => ({
+  plannedRoute: one(plannedRoutes, {
+    fields: [trips.plannedRouteId],
+    references: [plannedRoutes.id],
+  }),
+  emergencyContacts: many(tripEmergencyContacts),
+  locationUpdates: many(locationUpdates),
+  statusTransitions: many(tripStatusTransitions),
+  notifications: many(notifications),
+}));
+
+export const tripEmergencyContactsRelations = relations(tripEmergencyContacts, ({ one }) => ({
+  trip: one(trips, {
+    fields: [tripEmergencyContacts.tripId],
+    references: [trips.id],
+  }),
   emergencyContact: one(emergencyContacts, {
-    fields: [trips.emergencyContactId],
+    fields: [tripEmergencyContacts.emergencyContactId],
     references: [emergencyContacts.id],
   }),
-  locationUpdates: many(locationUpdates),
 }));
 
 export const locationUpdatesRelations = relations(locationUpdates, ({ one }) => ({
@@ -53,3 +281,21 @@ export const locationUpdatesRelations = relations(locationUpdates, ({ one }) =>
     references: [trips.id],
   }),
 }));
+
+export const tripStatusTransitionsRelations = relations(tripStatusTransitions, ({ one }) => ({
+  trip: one(trips, {
+    fields: [tripStatusTransitions.tripId],
+    references: [trips.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  trip: one(trips, {
+    fields: [notifications.tripId],
+    references: [trips.id],
+  }),
+  emergencyContact: one(emergencyContacts, {
+    fields: [notifications.emergencyContactId],
+    references: [emergencyContacts.id],
+  }),
+}));
@@ -2,7 +2,21 @@ import { createApplication } from "@specific-dev/framework";
 import * as appSchema from './db/schema/schema.js';
 import * as authSchema from './db/schema/auth-schema.js';
 import { registerEmergencyContactRoutes } from './routes/emergency-contacts.js';
+import { registerPlannedRouteRoutes } from './routes/planned-routes.js';
+import { registerSafetyPinRoutes } from './routes/safety-pin.js';
+import { registerMessageTemplateRoutes } from './routes/message-templates.js';
+import { registerAcknowledgementRoutes } from './routes/acknowledgements.js';
+import { registerShareRoutes } from './routes/share.js';
 import { registerTripRoutes } from './routes/trips.js';
+import { registerTripExportRoutes } from './routes/trip-exports.js';
+import { registerTripStreamRoutes } from './routes/trip-stream.js';
+import { registerNotificationRoutes } from './routes/notifications.js';
+import { registerPushTokenRoutes } from './routes/push-tokens.js';
+import { registerSmsWebhookRoutes } from './routes/sms-webhooks.js';
+import { startTripWatchdog } from './utils/trip-watchdog.js';
+import { smsTransports } from './utils/sms-transports.js';
+import { emailTransports } from './utils/email-transports.js';
+import { pushTransports } from './utils/push-transports.js';
 
 const schema = { ...appSchema, ...authSchema };
 
@@ -12,8 +26,26 @@ export type App = typeof app;
 
 app.withAuth();
 
+// Stop here rather than silently dropping alerts when SMS is not set up.
+// Email and push are optional and are turned off with a warning instead.
+smsTransports.getTransports(app.logger);
+emailTransports.getTransports(app.logger);
+pushTransports.getTransports(app.logger);
+
 registerEmergencyContactRoutes(app);
+await registerPlannedRouteRoutes(app);
+registerSafetyPinRoutes(app);
+registerMessageTemplateRoutes(app);
 registerTripRoutes(app);
+registerTripExportRoutes(app);
+registerAcknowledgementRoutes(app);
+registerShareRoutes(app);
+registerNotificationRoutes(app);
+registerPushTokenRoutes(app);
+await registerSmsWebhookRoutes(app);
+await registerTripStreamRoutes(app);
 
 await app.run();
 app.logger.info('Application running');
+
+startTripWatchdog(app);
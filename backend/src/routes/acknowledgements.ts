@@ -0,0 +1,118 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { escapeHtml } from '../utils/html.js';
+import { acknowledgeAlert } from '../utils/trip-contacts.js';
+
+function renderAcknowledgePage(token: string, contactName: string): string {
+  const apiPath = `/api/acknowledge/${encodeURIComponent(token)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Acknowledge Trail Tracker alert</title>
+</head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 40px auto; padding: 0 16px;">
+<h1>Trail Tracker alert</h1>
+<p>${escapeHtml(contactName)}, tap the button below to let the hiker's other emergency contacts know you are handling this alert.</p>
+<button id="ack" style="font-size: 18px; padding: 12px 24px;">I'm on it</button>
+<p id="result"></p>
+<script>
+document.getElementById('ack').addEventListener('click', async function () {
+  this.disabled = true;
+  const res = await fetch(${JSON.stringify(apiPath)}, { method: 'POST' });
+  document.getElementById('result').textContent = res.ok
+    ? 'Thank you. Your acknowledgement has been recorded.'
+    : 'Could not record your acknowledgement. Please try again.';
+  this.disabled = res.ok;
+});
+</script>
+</body>
+</html>`;
+}
+
+export function registerAcknowledgementRoutes(app: App) {
+  app.fastify.get('/acknowledge/:token', {
+    schema: {
+      description: 'Page for an emergency contact to acknowledge a trip alert',
+      tags: ['acknowledgements'],
+      params: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+    const { token } = request.params;
+
+    const tripContact = await app.db.query.tripEmergencyContacts.findFirst({
+      where: eq(schema.tripEmergencyContacts.acknowledgeToken, token),
+      with: {
+        emergencyContact: true,
+      },
+    });
+
+    if (!tripContact) {
+      return reply.status(404).type('text/plain').send('Not found');
+    }
+
+    return reply.type('text/html').send(
+      renderAcknowledgePage(token, tripContact.emergencyContact.name)
+    );
+  });
+
+  app.fastify.post('/api/acknowledge/:token', {
+    schema: {
+      description: 'Acknowledge a trip alert as an emergency contact',
+      tags: ['acknowledgements'],
+      params: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            acknowledged: { type: 'boolean' },
+            acknowledgedAt: { type: 'string', format: 'date-time' },
+            tripStatus: { type: 'string' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+    const { token } = request.params;
+
+    const tripContact = await app.db.query.tripEmergencyContacts.findFirst({
+      where: eq(schema.tripEmergencyContacts.acknowledgeToken, token),
+      with: {
+        trip: true,
+        emergencyContact: true,
+      },
+    });
+
+    if (!tripContact) {
+      app.logger.warn('Acknowledgement token not found');
+      return reply.status(404).send({ error: 'Alert not found' });
+    }
+
+    const acknowledgedAt = await acknowledgeAlert(app, tripContact);
+
+    return {
+      acknowledged: true,
+      acknowledgedAt,
+      tripStatus: tripContact.trip.status,
+    };
+  });
+}
@@ -1,7 +1,49 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import * as schema from '../db/schema/schema.js';
 import type { App } from '../index.js';
+import { LANGUAGES, isTimezone } from '../utils/sms-templates.js';
+import { CONTACT_CHANNELS, type ContactChannel } from '../utils/notifications.js';
+
+type ContactFields = {
+  name: string;
+  phoneNumber: string;
+  email?: string | null;
+  notificationChannel?: ContactChannel;
+  language?: string;
+  timezone?: string;
+};
+
+const contactLanguageSchema = {
+  type: 'string',
+  enum: [...LANGUAGES],
+  description: 'Language of the messages this contact receives',
+};
+
+const contactTimezoneSchema = {
+  type: 'string',
+  description: 'IANA time zone for times in messages, e.g. America/Denver',
+};
+
+const contactEmailSchema = {
+  type: ['string', 'null'],
+  format: 'email',
+  description: 'Address for email notifications; null removes it',
+};
+
+const contactChannelSchema = {
+  type: 'string',
+  enum: [...CONTACT_CHANNELS],
+  description: 'Notify the contact by SMS, email or both. Email needs an email address',
+};
+
+// Email notifications need somewhere to go
+function checkContactChannel(email: string | null | undefined, channel: string): string | null {
+  if (channel !== 'sms' && !email) {
+    return 'Add an email address to notify this contact by email';
+  }
+  return null;
+}
 
 export function registerEmergencyContactRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -19,6 +61,10 @@ export function registerEmergencyContactRoutes(app: App) {
               id: { type: 'string', format: 'uuid' },
               name: { type: 'string' },
               phoneNumber: { type: 'string' },
+              email: { type: ['string', 'null'] },
+              notificationChannel: { type: 'string' },
+              language: { type: 'string' },
+              timezone: { type: 'string' },
               createdAt: { type: 'string', format: 'date-time' },
             },
           },
@@ -53,6 +99,10 @@ export function registerEmergencyContactRoutes(app: App) {
         properties: {
           name: { type: 'string' },
           phoneNumber: { type: 'string' },
+          email: contactEmailSchema,
+          notificationChannel: contactChannelSchema,
+          language: contactLanguageSchema,
+          timezone: contactTimezoneSchema,
         },
       },
       response: {
@@ -63,26 +113,47 @@ export function registerEmergencyContactRoutes(app: App) {
             userId: { type: 'string' },
             name: { type: 'string' },
             phoneNumber: { type: 'string' },
+            email: { type: ['string', 'null'] },
+            notificationChannel: { type: 'string' },
+            language: { type: 'string' },
+            timezone: { type: 'string' },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
         401: {
           type: 'object',
           properties: { error: { type: 'string' } },
         },
       },
     },
-  }, async (request: FastifyRequest<{ Body: { name: string; phoneNumber: string } }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Body: ContactFields }>, reply: FastifyReply) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    const { name, phoneNumber } = request.body;
+    const { name, phoneNumber, email, notificationChannel, language, timezone } = request.body;
     app.logger.info({ userId: session.user.id, name, phoneNumber }, 'Creating emergency contact');
 
+    if (timezone !== undefined && !isTimezone(timezone)) {
+      return reply.status(400).send({ error: `Unknown time zone "${timezone}"` });
+    }
+
+    const channelError = checkContactChannel(email, notificationChannel ?? 'sms');
+    if (channelError) {
+      return reply.status(400).send({ error: channelError });
+    }
+
     const contact = await app.db.insert(schema.emergencyContacts).values({
       userId: session.user.id,
       name,
       phoneNumber,
+      email,
+      notificationChannel,
+      language,
+      timezone,
     }).returning();
 
     app.logger.info({ userId: session.user.id, contactId: contact[0].id }, 'Emergency contact created');
@@ -106,6 +177,10 @@ export function registerEmergencyContactRoutes(app: App) {
         properties: {
           name: { type: 'string' },
           phoneNumber: { type: 'string' },
+          email: contactEmailSchema,
+          notificationChannel: contactChannelSchema,
+          language: contactLanguageSchema,
+          timezone: contactTimezoneSchema,
         },
       },
       response: {
@@ -116,9 +191,17 @@ export function registerEmergencyContactRoutes(app: App) {
             userId: { type: 'string' },
             name: { type: 'string' },
             phoneNumber: { type: 'string' },
+            email: { type: ['string', 'null'] },
+            notificationChannel: { type: 'string' },
+            language: { type: 'string' },
+            timezone: { type: 'string' },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
         401: {
           type: 'object',
           properties: { error: { type: 'string' } },
@@ -130,17 +213,21 @@ export function registerEmergencyContactRoutes(app: App) {
       },
     },
   }, async (
-    request: FastifyRequest<{ Params: { id: string }; Body: { name?: string; phoneNumber?: string } }>,
+    request: FastifyRequest<{ Params: { id: string }; Body: Partial<ContactFields> }>,
     reply: FastifyReply
   ) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
     const { id } = request.params;
-    const { name, phoneNumber } = request.body;
+    const { name, phoneNumber, email, notificationChannel, language, timezone } = request.body;
 
     app.logger.info({ userId: session.user.id, contactId: id }, 'Updating emergency contact');
 
+    if (timezone !== undefined && !isTimezone(timezone)) {
+      return reply.status(400).send({ error: `Unknown time zone "${timezone}"` });
+    }
+
     const contact = await app.db.query.emergencyContacts.findFirst({
       where: and(
         eq(schema.emergencyContacts.id, id),
@@ -153,9 +240,21 @@ export function registerEmergencyContactRoutes(app: App) {
       return reply.status(404).send({ error: 'Contact not found' });
     }
 
+    const channelError = checkContactChannel(
+      email !== undefined ? email : contact.email,
+      notificationChannel ?? contact.notificationChannel
+    );
+    if (channelError) {
+      return reply.status(400).send({ error: channelError });
+    }
+
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (phoneNumber !== undefined) updateData.phoneNumber = phoneNumber;
+    if (email !== undefined) updateData.email = email;
+    if (notificationChannel !== undefined) updateData.notificationChannel = notificationChannel;
+    if (language !== undefined) updateData.language = language;
+    if (timezone !== undefined) updateData.timezone = timezone;
 
     const updated = await app.db.update(schema.emergencyContacts)
       .set(updateData)
@@ -168,7 +267,7 @@ export function registerEmergencyContactRoutes(app: App) {
 
   app.fastify.delete('/api/emergency-contacts/:id', {
     schema: {
-      description: 'Delete an emergency contact',
+      description: 'Delete an emergency contact. Contacts on the open trip cannot be deleted until it ends',
       tags: ['emergency-contacts'],
       params: {
         type: 'object',
@@ -190,6 +289,10 @@ export function registerEmergencyContactRoutes(app: App) {
           type: 'object',
           properties: { error: { type: 'string' } },
         },
+        409: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
@@ -211,6 +314,23 @@ export function registerEmergencyContactRoutes(app: App) {
       return reply.status(404).send({ error: 'Contact not found' });
     }
 
+    // Deleting the contact would silently take them off the open trip,
+    // possibly leaving nobody to alert
+    const [openTrip] = await app.db
+      .select({ id: schema.trips.id })
+      .from(schema.tripEmergencyContacts)
+      .innerJoin(schema.trips, eq(schema.trips.id, schema.tripEmergencyContacts.tripId))
+      .where(and(
+        eq(schema.tripEmergencyContacts.emergencyContactId, id),
+        isNull(schema.trips.endTime)
+      ))
+      .limit(1);
+
+    if (openTrip) {
+      app.logger.warn({ userId: session.user.id, contactId: id, tripId: openTrip.id }, 'Emergency contact is on an open trip');
+      return reply.status(409).send({ error: 'This contact is on your open trip. End the trip before deleting the contact' });
+    }
+
     await app.db.delete(schema.emergencyContacts).where(eq(schema.emergencyContacts.id, id));
 
     app.logger.info({ userId: session.user.id, contactId: id }, 'Emergency contact deleted');
@@ -0,0 +1,254 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import {
+  LANGUAGES,
+  TEMPLATE_KEYS,
+  type Language,
+  type TemplateKey,
+  isTemplateKey,
+  getDefaultTemplate,
+  getTemplatePlaceholders,
+  findUnknownPlaceholders,
+  loadMessageStyle,
+} from '../utils/sms-templates.js';
+
+// Longest custom template accepted, in characters
+const MAX_TEMPLATE_LENGTH = 1000;
+
+const templateParamsSchema = {
+  type: 'object',
+  required: ['key'],
+  properties: {
+    key: { type: 'string' },
+  },
+};
+
+const messageTemplateSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string' },
+    language: { type: 'string' },
+    placeholders: { type: 'array', items: { type: 'string' } },
+    defaultBody: { type: 'string' },
+    body: { type: 'string' },
+    custom: { type: 'boolean' },
+  },
+};
+
+const messageSettingsSchema = {
+  type: 'object',
+  properties: {
+    gsm7: { type: 'boolean' },
+  },
+};
+
+function formatMessageTemplate(key: TemplateKey, language: Language, customBody: string | undefined) {
+  const defaultBody = getDefaultTemplate(key, language);
+  return {
+    key,
+    language,
+    placeholders: getTemplatePlaceholders(key),
+    defaultBody,
+    body: customBody ?? defaultBody,
+    custom: customBody !== undefined,
+  };
+}
+
+export function registerMessageTemplateRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  app.fastify.get('/api/message-templates', {
+    schema: {
+      description: 'List the wording of every message sent to emergency contacts, in each language',
+      tags: ['message-templates'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            gsm7: { type: 'boolean' },
+            templates: { type: 'array', items: messageTemplateSchema },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Fetching message templates');
+
+    const style = await loadMessageStyle(app, session.user.id);
+
+    return {
+      gsm7: style.gsm7,
+      templates: TEMPLATE_KEYS.flatMap((key) =>
+        LANGUAGES.map((language) => formatMessageTemplate(key, language, style.templates.get(`${key}:${language}`)))
+      ),
+    };
+  });
+
+  app.fastify.put('/api/message-templates/:key', {
+    schema: {
+      description: 'Use your own wording for one message in one language',
+      tags: ['message-templates'],
+      params: templateParamsSchema,
+      body: {
+        type: 'object',
+        required: ['language', 'body'],
+        properties: {
+          language: { type: 'string', enum: [...LANGUAGES] },
+          body: { type: 'string', minLength: 1, maxLength: MAX_TEMPLATE_LENGTH },
+        },
+      },
+      response: {
+        200: messageTemplateSchema,
+        400: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            placeholders: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (
+    request: FastifyRequest<{ Params: { key: string }; Body: { language: Language; body: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { key } = request.params;
+    const { language, body } = request.body;
+
+    if (!isTemplateKey(key)) {
+      return reply.status(404).send({ error: 'Message template not found' });
+    }
+
+    const unknown = findUnknownPlaceholders(key, body);
+    if (unknown.length > 0) {
+      return reply.status(400).send({
+        error: `Unknown placeholders: ${unknown.map((name) => `{${name}}`).join(', ')}`,
+        placeholders: getTemplatePlaceholders(key),
+      });
+    }
+
+    app.logger.info({ userId: session.user.id, templateKey: key, language }, 'Saving message template');
+
+    const now = new Date();
+    const [template] = await app.db.insert(schema.messageTemplates)
+      .values({ userId: session.user.id, templateKey: key, language, body, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [schema.messageTemplates.userId, schema.messageTemplates.templateKey, schema.messageTemplates.language],
+        set: { body, updatedAt: now },
+      })
+      .returning();
+
+    return formatMessageTemplate(key, language, template.body);
+  });
+
+  app.fastify.delete('/api/message-templates/:key', {
+    schema: {
+      description: 'Go back to the default wording for one message in one language',
+      tags: ['message-templates'],
+      params: templateParamsSchema,
+      querystring: {
+        type: 'object',
+        required: ['language'],
+        properties: {
+          language: { type: 'string', enum: [...LANGUAGES] },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (
+    request: FastifyRequest<{ Params: { key: string }; Querystring: { language: Language } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { key } = request.params;
+    const { language } = request.query;
+
+    if (!isTemplateKey(key)) {
+      return reply.status(404).send({ error: 'Message template not found' });
+    }
+
+    app.logger.info({ userId: session.user.id, templateKey: key, language }, 'Resetting message template');
+
+    await app.db.delete(schema.messageTemplates)
+      .where(and(
+        eq(schema.messageTemplates.userId, session.user.id),
+        eq(schema.messageTemplates.templateKey, key),
+        eq(schema.messageTemplates.language, language)
+      ));
+
+    return { success: true };
+  });
+
+  app.fastify.put('/api/message-settings', {
+    schema: {
+      description: 'Choose GSM-7 mode: plain text in compact wording so alerts fit one SMS segment',
+      tags: ['message-templates'],
+      body: {
+        type: 'object',
+        required: ['gsm7'],
+        properties: {
+          gsm7: { type: 'boolean' },
+        },
+      },
+      response: {
+        200: messageSettingsSchema,
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: { gsm7: boolean } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { gsm7 } = request.body;
+    app.logger.info({ userId: session.user.id, gsm7 }, 'Updating message settings');
+
+    const now = new Date();
+    const [settings] = await app.db.insert(schema.messageSettings)
+      .values({ userId: session.user.id, gsm7, updatedAt: now })
+      .onConflictDoUpdate({
+        target: schema.messageSettings.userId,
+        set: { gsm7, updatedAt: now },
+      })
+      .returning();
+
+    return { gsm7: settings.gsm7 };
+  });
+}
@@ -0,0 +1,70 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { notificationsResponseSchema, formatNotification } from '../utils/notifications.js';
+
+export function registerNotificationRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  app.fastify.get('/api/trips/:id/notifications', {
+    schema: {
+      description: 'List the messages sent to emergency contacts for a trip, with their delivery status',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            notifications: notificationsResponseSchema,
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+
+    app.logger.info({ userId: session.user.id, tripId: id }, 'Fetching trip notifications');
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+      with: {
+        notifications: {
+          with: { emergencyContact: true },
+          orderBy: (notifications, { asc }) => [asc(notifications.createdAt)],
+        },
+      },
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    return {
+      notifications: trip.notifications.map((notification) =>
+        formatNotification(notification, notification.emergencyContact)
+      ),
+    };
+  });
+}
@@ -0,0 +1,272 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import multipart from '@fastify/multipart';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { routeLength } from '../utils/geo.js';
+import { RouteParseError, detectRouteFormat, parseRouteFile } from '../utils/route-parser.js';
+
+// Largest route file accepted for upload
+const MAX_ROUTE_FILE_BYTES = 5 * 1024 * 1024;
+
+const plannedRouteProperties = {
+  id: { type: 'string', format: 'uuid' },
+  name: { type: 'string' },
+  format: { type: 'string' },
+  distanceMeters: { type: 'number' },
+  pointCount: { type: 'integer' },
+  createdAt: { type: 'string', format: 'date-time' },
+};
+
+function formatPlannedRoute(route: typeof schema.plannedRoutes.$inferSelect) {
+  return {
+    id: route.id,
+    name: route.name,
+    format: route.format,
+    distanceMeters: route.distanceMeters,
+    pointCount: route.coordinates.flat().length,
+    createdAt: route.createdAt,
+  };
+}
+
+export async function registerPlannedRouteRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  if (!app.fastify.hasContentTypeParser('multipart/form-data')) {
+    await app.fastify.register(multipart);
+  }
+
+  app.fastify.get('/api/planned-routes', {
+    schema: {
+      description: 'Get planned routes uploaded by the authenticated user',
+      tags: ['planned-routes'],
+      response: {
+        200: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: plannedRouteProperties,
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Fetching planned routes');
+
+    const routes = await app.db.query.plannedRoutes.findMany({
+      where: eq(schema.plannedRoutes.userId, session.user.id),
+      orderBy: desc(schema.plannedRoutes.createdAt),
+    });
+
+    app.logger.info({ userId: session.user.id, count: routes.length }, 'Planned routes fetched');
+    return routes.map(formatPlannedRoute);
+  });
+
+  app.fastify.get('/api/planned-routes/:id', {
+    schema: {
+      description: 'Get a planned route including its lines',
+      tags: ['planned-routes'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...plannedRouteProperties,
+            coordinates: {
+              type: 'array',
+              items: {
+                type: 'array',
+                items: { type: 'array', items: { type: 'number' } },
+              },
+            },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    app.logger.info({ userId: session.user.id, routeId: id }, 'Fetching planned route');
+
+    const route = await app.db.query.plannedRoutes.findFirst({
+      where: and(
+        eq(schema.plannedRoutes.id, id),
+        eq(schema.plannedRoutes.userId, session.user.id)
+      ),
+    });
+
+    if (!route) {
+      app.logger.warn({ userId: session.user.id, routeId: id }, 'Planned route not found');
+      return reply.status(404).send({ error: 'Planned route not found' });
+    }
+
+    return {
+      ...formatPlannedRoute(route),
+      coordinates: route.coordinates,
+    };
+  });
+
+  app.fastify.post('/api/planned-routes', {
+    schema: {
+      description: 'Upload a planned route as a GPX or GeoJSON file (multipart field "file", optional field "name")',
+      tags: ['planned-routes'],
+      consumes: ['multipart/form-data'],
+      response: {
+        201: {
+          type: 'object',
+          properties: plannedRouteProperties,
+        },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Uploading planned route');
+
+    const file = await request.file({ limits: { fileSize: MAX_ROUTE_FILE_BYTES } });
+
+    if (!file) {
+      app.logger.warn({ userId: session.user.id }, 'No route file uploaded');
+      return reply.status(400).send({ error: 'A GPX or GeoJSON file is required' });
+    }
+
+    const content = (await file.toBuffer()).toString('utf8');
+    const format = detectRouteFormat(file.filename, content);
+
+    if (!format) {
+      app.logger.warn({ userId: session.user.id, filename: file.filename }, 'Unsupported route file');
+      return reply.status(400).send({ error: 'Route file must be GPX or GeoJSON' });
+    }
+
+    let parsed;
+    try {
+      parsed = parseRouteFile(format, content);
+    } catch (error) {
+      if (!(error instanceof RouteParseError)) throw error;
+      app.logger.warn({ userId: session.user.id, err: error }, 'Invalid route file');
+      return reply.status(400).send({ error: error.message });
+    }
+
+    const nameField = file.fields.name;
+    const providedName = nameField && 'value' in nameField ? String(nameField.value).trim() : '';
+    const name = providedName || parsed.name || file.filename.replace(/\.[^.]+$/, '');
+
+    const [route] = await app.db.insert(schema.plannedRoutes).values({
+      userId: session.user.id,
+      name,
+      format,
+      distanceMeters: routeLength(parsed.coordinates),
+      coordinates: parsed.coordinates,
+    }).returning();
+
+    app.logger.info(
+      { userId: session.user.id, routeId: route.id, points: parsed.coordinates.flat().length },
+      'Planned route uploaded'
+    );
+
+    reply.status(201);
+    return formatPlannedRoute(route);
+  });
+
+  app.fastify.delete('/api/planned-routes/:id', {
+    schema: {
+      description: 'Delete a planned route. A route the open trip follows cannot be deleted until the trip ends',
+      tags: ['planned-routes'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        409: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    app.logger.info({ userId: session.user.id, routeId: id }, 'Deleting planned route');
+
+    const route = await app.db.query.plannedRoutes.findFirst({
+      where: and(
+        eq(schema.plannedRoutes.id, id),
+        eq(schema.plannedRoutes.userId, session.user.id)
+      ),
+    });
+
+    if (!route) {
+      app.logger.warn({ userId: session.user.id, routeId: id }, 'Planned route not found');
+      return reply.status(404).send({ error: 'Planned route not found' });
+    }
+
+    // Deleting the route would detach it from the open trip and silently
+    // stop the off-route checks
+    const openTrip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.plannedRouteId, id),
+        isNull(schema.trips.endTime)
+      ),
+      columns: { id: true },
+    });
+
+    if (openTrip) {
+      app.logger.warn({ userId: session.user.id, routeId: id, tripId: openTrip.id }, 'Planned route is used by an open trip');
+      return reply.status(409).send({ error: 'Your open trip follows this route. End the trip before deleting the route' });
+    }
+
+    await app.db.delete(schema.plannedRoutes).where(eq(schema.plannedRoutes.id, id));
+
+    app.logger.info({ userId: session.user.id, routeId: id }, 'Planned route deleted');
+    return { success: true };
+  });
+}
@@ -0,0 +1,253 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import {
+  PUSH_PLATFORMS,
+  PHONE_CODE_LOCKOUT_MINUTES,
+  sendPhoneVerificationCode,
+  checkPhoneVerificationCode,
+} from '../utils/push.js';
+
+type PushTokenBody = {
+  token: string;
+  platform?: string;
+  phoneNumber?: string;
+};
+
+const pushDeviceSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    token: { type: 'string' },
+    platform: { type: ['string', 'null'] },
+    phoneNumber: { type: ['string', 'null'] },
+    phoneVerifiedAt: { type: ['string', 'null'], format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+export function registerPushTokenRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  app.fastify.get('/api/push-tokens', {
+    schema: {
+      description: 'List the devices registered for push notifications',
+      tags: ['push-tokens'],
+      response: {
+        200: {
+          type: 'array',
+          items: pushDeviceSchema,
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    return app.db.query.pushDevices.findMany({
+      where: eq(schema.pushDevices.userId, session.user.id),
+    });
+  });
+
+  app.fastify.put('/api/push-tokens', {
+    schema: {
+      description: 'Register this device for push notifications about trips that list you as an emergency contact. '
+        + 'The device stays registered until you sign out of this session. A new phone number is texted a code, '
+        + 'and only reaches contacts once the code is confirmed. Codes per number and per user are limited; while '
+        + 'no code can be sent, phoneCodeRetryAt says when one can',
+      tags: ['push-tokens'],
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', minLength: 1, description: 'Expo push token, e.g. ExponentPushToken[...]' },
+          platform: { type: 'string', enum: [...PUSH_PLATFORMS] },
+          phoneNumber: { type: 'string', description: 'Number of this phone, matched against emergency contacts' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...pushDeviceSchema.properties,
+            phoneCodeRetryAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: PushTokenBody }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { token, platform, phoneNumber } = request.body;
+    app.logger.info({ userId: session.user.id, platform }, 'Registering push token');
+
+    // A confirmed or pending phone number carries over only while the same
+    // user registers the same number again
+    const existing = await app.db.query.pushDevices.findFirst({
+      where: eq(schema.pushDevices.token, token),
+    });
+    const samePhone = existing?.userId === session.user.id && !!phoneNumber && existing.phoneNumber === phoneNumber;
+
+    // A token belongs to one device, so registering it again moves it to
+    // the current user and session
+    const now = new Date();
+    const device = {
+      userId: session.user.id,
+      sessionId: session.session.id,
+      platform: platform ?? null,
+      phoneNumber: phoneNumber ?? null,
+      ...(samePhone ? {} : { phoneVerifiedAt: null, phoneCodeHash: null, phoneCodeExpiresAt: null }),
+      updatedAt: now,
+    };
+    const [registered] = await app.db.insert(schema.pushDevices)
+      .values({ ...device, token })
+      .onConflictDoUpdate({
+        target: schema.pushDevices.token,
+        set: device,
+      })
+      .returning();
+
+    const { device: updated, waitUntil } = await sendPhoneVerificationCode(app, registered);
+    return { ...updated, phoneCodeRetryAt: waitUntil };
+  });
+
+  app.fastify.post('/api/push-tokens/:id/verify-phone', {
+    schema: {
+      description: 'Confirm the phone number of a device with the code texted to it',
+      tags: ['push-tokens'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: { type: 'string', pattern: '^[0-9]{6}$' },
+        },
+      },
+      response: {
+        200: pushDeviceSchema,
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        403: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        409: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        429: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string }; Body: { code: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    app.logger.info({ userId: session.user.id, pushDeviceId: id }, 'Verifying push device phone number');
+
+    const where = and(
+      eq(schema.pushDevices.id, id),
+      eq(schema.pushDevices.userId, session.user.id)
+    );
+    const device = await app.db.query.pushDevices.findFirst({ where });
+
+    if (!device) {
+      app.logger.warn({ userId: session.user.id, pushDeviceId: id }, 'Push device not found');
+      return reply.status(404).send({ error: 'Device not found' });
+    }
+
+    if (device.phoneVerifiedAt) return device;
+
+    const result = await checkPhoneVerificationCode(app, device, request.body.code);
+    if (result !== 'verified') {
+      app.logger.warn({ userId: session.user.id, pushDeviceId: id, result }, 'Phone verification code not accepted');
+    }
+    if (result === 'expired') {
+      return reply.status(409).send({ error: 'There is no valid code for this device. Register the phone number again to get a new one' });
+    }
+    if (result === 'locked') {
+      return reply.status(429).send({
+        error: `Too many wrong codes for this number. Try again in ${PHONE_CODE_LOCKOUT_MINUTES} minutes`,
+      });
+    }
+    if (result === 'rejected') {
+      return reply.status(403).send({ error: 'Incorrect code' });
+    }
+
+    return app.db.query.pushDevices.findFirst({ where });
+  });
+
+  app.fastify.delete('/api/push-tokens/:id', {
+    schema: {
+      description: 'Stop push notifications to a device',
+      tags: ['push-tokens'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    app.logger.info({ userId: session.user.id, pushDeviceId: id }, 'Removing push token');
+
+    const deleted = await app.db.delete(schema.pushDevices)
+      .where(and(
+        eq(schema.pushDevices.id, id),
+        eq(schema.pushDevices.userId, session.user.id)
+      ))
+      .returning();
+
+    if (deleted.length === 0) {
+      app.logger.warn({ userId: session.user.id, pushDeviceId: id }, 'Push device not found');
+      return reply.status(404).send({ error: 'Device not found' });
+    }
+
+    return { success: true };
+  });
+}
@@ -0,0 +1,156 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import { hashPassword } from 'better-auth/crypto';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { type ReauthCredentials, reauthBodySchema, verifyReauth, rejectReauth } from '../utils/reauth.js';
+
+export function registerSafetyPinRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  app.fastify.get('/api/safety-pin', {
+    schema: {
+      description: 'Check whether the user has set a safety PIN',
+      tags: ['safety-pin'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            hasPin: { type: 'boolean' },
+            updatedAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const safetyPin = await app.db.query.safetyPins.findFirst({
+      where: eq(schema.safetyPins.userId, session.user.id),
+    });
+
+    return {
+      hasPin: !!safetyPin,
+      updatedAt: safetyPin?.updatedAt ?? null,
+    };
+  });
+
+  app.fastify.put('/api/safety-pin', {
+    schema: {
+      description: 'Set or change the safety PIN used to cancel an SOS. Needs the current PIN or the account password',
+      tags: ['safety-pin'],
+      body: {
+        type: 'object',
+        required: ['pin'],
+        properties: {
+          pin: reauthBodySchema.pin,
+          currentPin: reauthBodySchema.pin,
+          password: reauthBodySchema.password,
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            hasPin: { type: 'boolean' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        403: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        429: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (
+    request: FastifyRequest<{ Body: { pin: string; currentPin?: string; password?: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Setting safety PIN');
+
+    // Otherwise anyone holding the signed-in phone could replace the PIN
+    // and call off an SOS with it
+    const { currentPin, password } = request.body;
+    const reauth = await verifyReauth(app, session.user.id, { pin: currentPin, password });
+    if (reauth !== 'verified') {
+      app.logger.warn({ userId: session.user.id, reauth }, 'Safety PIN change re-authentication failed');
+      return rejectReauth(reply, reauth);
+    }
+
+    const pinHash = await hashPassword(request.body.pin);
+    const now = new Date();
+
+    const [safetyPin] = await app.db.insert(schema.safetyPins)
+      .values({ userId: session.user.id, pinHash, updatedAt: now })
+      .onConflictDoUpdate({
+        target: schema.safetyPins.userId,
+        set: { pinHash, updatedAt: now },
+      })
+      .returning();
+
+    app.logger.info({ userId: session.user.id }, 'Safety PIN set');
+    return { hasPin: true, updatedAt: safetyPin.updatedAt };
+  });
+
+  app.fastify.delete('/api/safety-pin', {
+    schema: {
+      description: 'Remove the safety PIN. Needs the PIN or the account password',
+      tags: ['safety-pin'],
+      body: {
+        type: 'object',
+        properties: reauthBodySchema,
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        403: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        429: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: ReauthCredentials }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Removing safety PIN');
+
+    const reauth = await verifyReauth(app, session.user.id, request.body ?? {});
+    if (reauth !== 'verified') {
+      app.logger.warn({ userId: session.user.id, reauth }, 'Safety PIN removal re-authentication failed');
+      return rejectReauth(reply, reauth);
+    }
+
+    await app.db.delete(schema.safetyPins)
+      .where(eq(schema.safetyPins.userId, session.user.id));
+
+    app.logger.info({ userId: session.user.id }, 'Safety PIN removed');
+    return { success: true };
+  });
+}
@@ -0,0 +1,252 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { formatDecimal, formatFixMetadata } from '../utils/sms.js';
+import { lastFixResponseSchema, formatLastFix, getLastFix } from '../utils/location-fix.js';
+import { describePlannedRoute } from '../utils/planned-routes.js';
+import { escapeHtml } from '../utils/html.js';
+
+// Seconds between automatic reloads of the public trip page
+const SHARE_PAGE_REFRESH_SECONDS = 60;
+
+type SharedTrip = Awaited<ReturnType<typeof buildSharedTrip>>;
+
+async function buildSharedTrip(app: App, token: string) {
+  const trip = await app.db.query.trips.findFirst({
+    where: eq(schema.trips.shareToken, token),
+    with: {
+      locationUpdates: {
+        orderBy: (updates, { asc }) => [asc(updates.timestamp)],
+      },
+      plannedRoute: true,
+    },
+  });
+
+  if (!trip) return null;
+
+  return {
+    ended: trip.endTime !== null,
+    tripId: trip.id,
+    trip: {
+      activityType: trip.activityType,
+      status: trip.status,
+      clothingDescription: trip.clothingDescription,
+      vehicleDescription: trip.vehicleDescription,
+      startTime: trip.startTime,
+      expectedReturnTime: trip.expectedReturnTime,
+      startLatitude: formatDecimal(trip.startLatitude),
+      startLongitude: formatDecimal(trip.startLongitude),
+      lastLatitude: formatDecimal(trip.lastLatitude),
+      lastLongitude: formatDecimal(trip.lastLongitude),
+      lastLocationUpdate: trip.lastLocationUpdate,
+      ...formatLastFix(trip),
+      lastFixSummary: formatFixMetadata(getLastFix(trip)),
+      plannedRoute: trip.plannedRoute
+        ? {
+            name: trip.plannedRoute.name,
+            distanceMeters: trip.plannedRoute.distanceMeters,
+            description: describePlannedRoute(trip.plannedRoute),
+            coordinates: trip.plannedRoute.coordinates,
+          }
+        : null,
+      trail: trip.locationUpdates.map((update) => ({
+        latitude: formatDecimal(update.latitude),
+        longitude: formatDecimal(update.longitude),
+        timestamp: update.timestamp,
+      })),
+    },
+  };
+}
+
+function renderSharePage(trip: SharedTrip['trip'], tripId: string, token: string): string {
+  const points = [
+    [Number(trip.startLatitude), Number(trip.startLongitude)],
+    ...trip.trail.map((point) => [Number(point.latitude), Number(point.longitude)]),
+  ];
+  const plannedRouteLines = (trip.plannedRoute?.coordinates ?? []).map((line) => line.map(([lon, lat]) => [lat, lon]));
+  const mapsUrl = `https://maps.google.com/?q=${trip.lastLatitude},${trip.lastLongitude}`;
+
+  const rows = [
+    ['Status', trip.status],
+    ['Activity', trip.activityType],
+    ['Planned route', trip.plannedRoute?.description],
+    ['Clothing', trip.clothingDescription],
+    ['Vehicle', trip.vehicleDescription],
+    ['Started', trip.startTime.toISOString()],
+    ['Expected return', trip.expectedReturnTime?.toISOString()],
+    ['Last position', `${trip.lastLatitude}, ${trip.lastLongitude}`],
+    ['Last update', trip.lastLocationUpdate.toISOString()],
+    ['Last GPS fix', trip.lastFixSummary],
+  ]
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  const trailRows = [...trip.trail]
+    .reverse()
+    .map((point) => `<li>${escapeHtml(point.timestamp.toISOString())}: ${escapeHtml(point.latitude)}, ${escapeHtml(point.longitude)}</li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="refresh" content="${SHARE_PAGE_REFRESH_SECONDS}">
+<title>Trail Tracker live trip</title>
+<link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css">
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 24px auto; padding: 0 16px; }
+th { text-align: left; padding-right: 16px; }
+#map { height: 360px; margin: 16px 0; }
+</style>
+</head>
+<body>
+<h1>Trail Tracker live trip</h1>
+<table>
+${rows}
+</table>
+<p><a href="${escapeHtml(mapsUrl)}">Open last position in Google Maps</a></p>
+<div id="map"></div>
+<h2>Breadcrumb trail</h2>
+<ul>
+${trailRows || '<li>No location updates yet</li>'}
+</ul>
+<p>This page updates live and refreshes at least every ${SHARE_PAGE_REFRESH_SECONDS} seconds.</p>
+<script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+<script>
+const points = ${JSON.stringify(points)};
+const plannedRoute = ${JSON.stringify(plannedRouteLines)};
+const map = L.map('map');
+L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', {
+  attribution: '&copy; OpenStreetMap contributors',
+}).addTo(map);
+const trail = L.polyline(points).addTo(map);
+L.marker(points[points.length - 1]).addTo(map);
+const bounds = trail.getBounds();
+if (plannedRoute.length > 0) {
+  const route = L.polyline(plannedRoute, { color: '#888', dashArray: '6 6' }).addTo(map);
+  bounds.extend(route.getBounds());
+}
+map.fitBounds(bounds, { maxZoom: 15 });
+
+// Reload as soon as anything changes instead of waiting for the next refresh
+const ws = new WebSocket(location.origin.replace(/^http/, 'ws') + ${JSON.stringify(`/ws/trips/${tripId}`)});
+ws.onopen = () => ws.send(${JSON.stringify(token)});
+ws.onmessage = (event) => {
+  const data = JSON.parse(event.data);
+  if (data.type && data.type !== 'authenticated') location.reload();
+};
+</script>
+</body>
+</html>`;
+}
+
+export function registerShareRoutes(app: App) {
+  app.fastify.get('/api/share/:token', {
+    schema: {
+      description: 'Get the live view of a shared trip (no login required)',
+      tags: ['share'],
+      params: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            activityType: { type: 'string' },
+            status: { type: 'string' },
+            clothingDescription: { type: ['string', 'null'] },
+            vehicleDescription: { type: ['string', 'null'] },
+            startTime: { type: 'string', format: 'date-time' },
+            expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+            startLatitude: { type: 'string' },
+            startLongitude: { type: 'string' },
+            lastLatitude: { type: 'string' },
+            lastLongitude: { type: 'string' },
+            lastLocationUpdate: { type: 'string', format: 'date-time' },
+            ...lastFixResponseSchema,
+            plannedRoute: {
+              type: ['object', 'null'],
+              properties: {
+                name: { type: 'string' },
+                distanceMeters: { type: 'number' },
+                description: { type: 'string' },
+                coordinates: {
+                  type: 'array',
+                  items: {
+                    type: 'array',
+                    items: { type: 'array', items: { type: 'number' } },
+                  },
+                },
+              },
+            },
+            trail: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  latitude: { type: 'string' },
+                  longitude: { type: 'string' },
+                  timestamp: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        410: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+    const shared = await buildSharedTrip(app, request.params.token);
+
+    if (!shared) {
+      app.logger.warn('Shared trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    if (shared.ended) {
+      return reply.status(410).send({ error: 'This trip has ended and is no longer shared' });
+    }
+
+    return shared.trip;
+  });
+
+  app.fastify.get('/share/:token', {
+    schema: {
+      description: 'Public live trip page for emergency contacts',
+      tags: ['share'],
+      params: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', format: 'uuid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+    const shared = await buildSharedTrip(app, request.params.token);
+
+    if (!shared) {
+      return reply.status(404).type('text/plain').send('Trip not found');
+    }
+
+    if (shared.ended) {
+      return reply.status(410).type('text/plain').send('This trip has ended and is no longer shared.');
+    }
+
+    return reply.type('text/html').send(renderSharePage(shared.trip, shared.tripId, request.params.token));
+  });
+}
@@ -0,0 +1,129 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { App } from '../index.js';
+import { buildPublicUrl } from '../utils/links.js';
+import { escapeHtml } from '../utils/html.js';
+import { handleInboundSms } from '../utils/sms-commands.js';
+import { DELIVERY_STATUSES, type DeliveryStatus, applyDeliveryReport } from '../utils/notifications.js';
+
+type TwilioStatusCallback = {
+  MessageSid: string;
+  MessageStatus: string;
+  ErrorCode?: string;
+};
+
+type TwilioInboundMessage = {
+  From: string;
+  Body?: string;
+};
+
+/**
+ * Check the X-Twilio-Signature header against the URL Twilio called and the
+ * posted form fields. Fails closed when Twilio or the public URL is not
+ * configured, since the signature cannot be checked then.
+ */
+async function isSignedByTwilio(request: FastifyRequest): Promise<boolean> {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const url = buildPublicUrl(request.url);
+  const signature = request.headers['x-twilio-signature'];
+
+  if (!authToken || !url || typeof signature !== 'string') return false;
+
+  const { default: twilio } = await import('twilio');
+  return twilio.validateRequest(authToken, signature, url, (request.body ?? {}) as Record<string, string>);
+}
+
+// TwiML response that texts the message back to the sender
+function renderSmsReply(message: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response><Message>${escapeHtml(message)}</Message></Response>`;
+}
+
+/**
+ * Webhooks called by the SMS provider. Twilio posts form-encoded bodies, so
+ * the routes live in their own plugin with a parser for that content type.
+ */
+export async function registerSmsWebhookRoutes(app: App) {
+  await app.fastify.register(async (instance: App['fastify']) => {
+    instance.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'string' },
+      (_request, body, done) => {
+        done(null, Object.fromEntries(new URLSearchParams(body as string)));
+      }
+    );
+
+    instance.post('/api/webhooks/sms/status', {
+      schema: {
+        description: 'Delivery report for a text message sent to an emergency contact (Twilio status callback)',
+        tags: ['webhooks'],
+        body: {
+          type: 'object',
+          required: ['MessageSid', 'MessageStatus'],
+          properties: {
+            MessageSid: { type: 'string' },
+            MessageStatus: { type: 'string' },
+            ErrorCode: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { success: { type: 'boolean' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    }, async (request: FastifyRequest<{ Body: TwilioStatusCallback }>, reply: FastifyReply) => {
+      if (!(await isSignedByTwilio(request))) {
+        app.logger.warn({ url: request.url }, 'Rejected SMS status callback with invalid signature');
+        return reply.status(403).send({ error: 'Invalid signature' });
+      }
+
+      const { MessageSid, MessageStatus, ErrorCode } = request.body;
+
+      // Twilio also reports progress such as 'sending' and 'sent'; only the
+      // final delivery state is recorded
+      if (!DELIVERY_STATUSES.includes(MessageStatus as DeliveryStatus)) {
+        return { success: true };
+      }
+
+      const notification = await applyDeliveryReport(app, {
+        transport: 'twilio',
+        messageId: MessageSid,
+        status: MessageStatus as DeliveryStatus,
+        errorCode: ErrorCode || null,
+      });
+
+      if (!notification) {
+        app.logger.info({ messageSid: MessageSid, status: MessageStatus }, 'Delivery report for unknown message');
+      }
+
+      return { success: true };
+    });
+
+    instance.post('/api/webhooks/sms/inbound', {
+      schema: {
+        description: 'Text message from an emergency contact: WHERE, STATUS or ACK (Twilio messaging webhook)',
+        tags: ['webhooks'],
+        body: {
+          type: 'object',
+          required: ['From'],
+          properties: {
+            From: { type: 'string' },
+            Body: { type: 'string' },
+          },
+        },
+      },
+    }, async (request: FastifyRequest<{ Body: TwilioInboundMessage }>, reply: FastifyReply) => {
+      if (!(await isSignedByTwilio(request))) {
+        app.logger.warn({ url: request.url }, 'Rejected inbound SMS with invalid signature');
+        return reply.status(403).send({ error: 'Invalid signature' });
+      }
+
+      const message = await handleInboundSms(app, request.body.From, request.body.Body ?? '');
+      return reply.type('text/xml').send(renderSmsReply(message));
+    });
+  });
+}
@@ -0,0 +1,99 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { type ExportTrip, buildGpx, buildGeoJson, buildKml } from '../utils/trip-export.js';
+
+type ExportFormat = {
+  extension: string;
+  label: string;
+  contentType: string;
+  build: (trip: ExportTrip) => string;
+};
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    extension: 'gpx',
+    label: 'GPX 1.1',
+    contentType: 'application/gpx+xml',
+    build: buildGpx,
+  },
+  {
+    extension: 'geojson',
+    label: 'a GeoJSON FeatureCollection',
+    contentType: 'application/geo+json',
+    build: (trip) => JSON.stringify(buildGeoJson(trip)),
+  },
+  {
+    extension: 'kml',
+    label: 'KML',
+    contentType: 'application/vnd.google-earth.kml+xml',
+    build: buildKml,
+  },
+];
+
+export function registerTripExportRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  async function findExportTrip(id: string, userId: string) {
+    return app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, userId)
+      ),
+      with: {
+        locationUpdates: {
+          orderBy: (updates, { asc }) => [asc(updates.timestamp)],
+        },
+      },
+    });
+  }
+
+  for (const format of EXPORT_FORMATS) {
+    app.fastify.get(`/api/trips/:id/export.${format.extension}`, {
+      schema: {
+        description: `Export the recorded track of a trip as ${format.label}`,
+        tags: ['trips'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+
+      app.logger.info(
+        { userId: session.user.id, tripId: id, format: format.extension },
+        'Exporting trip'
+      );
+
+      const trip = await findExportTrip(id, session.user.id);
+
+      if (!trip) {
+        app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+        return reply.status(404).send({ error: 'Trip not found' });
+      }
+
+      return reply
+        .type(format.contentType)
+        .header('Content-Disposition', `attachment; filename="trip-${trip.id}.${format.extension}"`)
+        .send(format.build(trip));
+    });
+  }
+}
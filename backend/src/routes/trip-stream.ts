@@ -0,0 +1,122 @@
+import type { FastifyRequest } from 'fastify';
+import websocket, { type WebSocket } from '@fastify/websocket';
+import { eq, and, gt } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import * as authSchema from '../db/schema/auth-schema.js';
+import type { App } from '../index.js';
+import { subscribeToTrip } from '../utils/trip-events.js';
+import { isTripFinished } from '../utils/trip-status.js';
+
+// Milliseconds a client has to send its token after connecting
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Resolve a bearer token to its user id. Signed tokens (`token.signature`)
+ * are accepted by looking up their session token part.
+ */
+async function findSessionUserId(app: App, token: string): Promise<string | null> {
+  const sessionToken = token.split('.')[0];
+  if (!sessionToken) return null;
+
+  const session = await app.db.query.session.findFirst({
+    where: and(
+      eq(authSchema.session.token, sessionToken),
+      gt(authSchema.session.expiresAt, new Date())
+    ),
+  });
+
+  return session ? session.userId : null;
+}
+
+/**
+ * Load the trip a stream client may watch: the owner authenticates with their
+ * bearer token, emergency contacts with the trip's share token while the trip
+ * is still running.
+ */
+async function findStreamTrip(app: App, tripId: string, token: string) {
+  const trip = await app.db.query.trips.findFirst({
+    where: eq(schema.trips.id, tripId),
+  });
+
+  if (!trip) return null;
+
+  if (token === trip.shareToken) {
+    return trip.endTime === null ? trip : null;
+  }
+
+  const userId = await findSessionUserId(app, token);
+  return userId === trip.userId ? trip : null;
+}
+
+function sendJson(socket: WebSocket, data: unknown) {
+  socket.send(JSON.stringify(data));
+}
+
+export async function registerTripStreamRoutes(app: App) {
+  await app.fastify.register(websocket);
+
+  /**
+   * Streams location updates, status changes and contact acknowledgements
+   * for one trip. The first message from the client must be its bearer token
+   * or the trip's share token. Share token streams close when the trip ends.
+   */
+  app.fastify.get('/ws/trips/:id', { websocket: true }, (
+    socket: WebSocket,
+    request: FastifyRequest<{ Params: { id: string } }>
+  ) => {
+    const { id } = request.params;
+    let unsubscribe: (() => void) | null = null;
+
+    const authTimeout = setTimeout(() => {
+      sendJson(socket, { error: 'Authentication timeout' });
+      socket.close();
+    }, AUTH_TIMEOUT_MS);
+
+    socket.once('message', async (raw) => {
+      clearTimeout(authTimeout);
+
+      try {
+        const token = raw.toString().trim();
+        const trip = await findStreamTrip(app, id, token);
+
+        if (!trip) {
+          app.logger.warn({ tripId: id }, 'Trip stream authentication failed');
+          sendJson(socket, { error: 'Trip not found' });
+          socket.close();
+          return;
+        }
+
+        if (socket.readyState !== socket.OPEN) return;
+
+        // The share link stops working once the trip ends, so contacts
+        // watching through it are let go after the final status
+        const viaShareToken = token === trip.shareToken;
+        unsubscribe = subscribeToTrip(id, (event) => {
+          sendJson(socket, event);
+          if (viaShareToken && event.type === 'status' && isTripFinished(event.status)) {
+            socket.close();
+          }
+        });
+        app.logger.info({ userId: trip.userId, tripId: id }, 'Trip stream subscribed');
+
+        sendJson(socket, {
+          type: 'authenticated',
+          tripId: trip.id,
+          status: trip.status,
+        });
+      } catch (error) {
+        app.logger.error({ err: error, tripId: id }, 'Trip stream setup failed');
+        sendJson(socket, { error: 'Internal error' });
+        socket.close();
+      }
+    });
+
+    socket.on('close', () => {
+      clearTimeout(authTimeout);
+      if (unsubscribe) {
+        unsubscribe();
+        app.logger.info({ tripId: id }, 'Trip stream closed');
+      }
+    });
+  });
+}
@@ -1,86 +1,501 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, or, asc, desc, inArray, isNull, lt, gt, gte, lte, count, type SQL } from 'drizzle-orm';
 import * as schema from '../db/schema/schema.js';
 import type { App } from '../index.js';
 import {
-  sendSMS,
   buildTripStartMessage,
   buildLocationUpdateMessage,
+  buildPossiblyLostMessage,
   buildSOSMessage,
   buildTripCompleteMessage,
+  buildTripPausedMessage,
+  buildTripResumedMessage,
+  buildTripCancelledMessage,
+  buildAlertResolvedMessage,
+  buildSOSCancelledMessage,
   formatDecimal,
 } from '../utils/sms.js';
+import {
+  type TripStatus,
+  canTransition,
+  isTripTracking,
+  getStatusAfterFix,
+  getFixTransitionReason,
+} from '../utils/trip-status.js';
+import {
+  type FixMetadata,
+  fixMetadataBodySchema,
+  lastFixResponseSchema,
+  pickFixMetadata,
+  toLastFixColumns,
+  formatLastFix,
+} from '../utils/location-fix.js';
+import {
+  plannedRouteSummarySchema,
+  formatPlannedRouteSummary,
+  describePlannedRoute,
+} from '../utils/planned-routes.js';
+import {
+  type TripContact,
+  withTripContacts,
+  tripContactsResponseSchema,
+  formatTripContacts,
+  notifyTripContacts,
+  getAlertRecipients,
+  getAlertedContacts,
+} from '../utils/trip-contacts.js';
+import {
+  type RouteFix,
+  OFF_ROUTE_DISTANCE_METERS,
+  trackRouteDeviation,
+} from '../utils/route-deviation.js';
+import { tripStatsSchema, computeTripStats, getTripsStats } from '../utils/trip-stats.js';
+import { encodeCursor, decodeCursor } from '../utils/pagination.js';
+import { downsampleTrack } from '../utils/track-sampling.js';
+import { type ReauthCredentials, reauthBodySchema, verifyReauth, rejectReauth } from '../utils/reauth.js';
+import { publishTripEvent } from '../utils/trip-events.js';
+import type { SmsMessage } from '../utils/sms-templates.js';
+import { notificationsResponseSchema, formatTripNotifications } from '../utils/notifications.js';
+import {
+  tripTransitionsResponseSchema,
+  recordTripTransition,
+  transitionTrip,
+} from '../utils/trip-transitions.js';
+import {
+  type LocationUpdatePolicy,
+  locationUpdatePolicyBodySchema,
+  locationUpdatePolicyResponseSchema,
+  formatLocationUpdatePolicy,
+  toLocationUpdatePolicyColumns,
+  claimLocationUpdate,
+} from '../utils/location-update-policy.js';
+
+// Largest number of fixes accepted in one batch upload
+const MAX_LOCATION_BATCH_SIZE = 500;
+
+// How far ahead of the server clock a device timestamp may be
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Page sizes for the trip history
+const DEFAULT_TRIPS_PAGE_SIZE = 20;
+const MAX_TRIPS_PAGE_SIZE = 100;
+
+type TripListQuery = {
+  limit?: number;
+  cursor?: string;
+  status?: string;
+  activityType?: string;
+  from?: string;
+  to?: string;
+  sort?: 'newest' | 'oldest';
+};
+
+type StatusAction = {
+  action: string;
+  status: TripStatus;
+  description: string;
+  reason: string;
+  // Only allow the action from these statuses, on top of the transition rules
+  from?: TripStatus[];
+  // Whether the trip finishes with this action
+  ends: boolean;
+  // Other trip columns set along with the status
+  columns?: () => Partial<typeof schema.trips.$inferInsert>;
+  // Statuses the action needs the safety PIN or password in
+  reauthFrom?: TripStatus[];
+  eventType: string;
+  buildMessage: (activityType: string, reason: string | undefined) => SmsMessage;
+};
+
+// Status changes the trip owner makes directly, besides completing a trip and
+// raising an SOS
+const STATUS_ACTIONS: StatusAction[] = [
+  {
+    action: 'pause',
+    status: 'paused',
+    description: 'Pause tracking, e.g. overnight at camp. Check-in alerts stop until the trip resumes',
+    reason: 'Paused by user',
+    ends: false,
+    eventType: 'trip_paused',
+    buildMessage: buildTripPausedMessage,
+  },
+  {
+    action: 'resume',
+    status: 'active',
+    description: 'Resume tracking a paused trip',
+    reason: 'Resumed by user',
+    from: ['paused'],
+    ends: false,
+    // Resuming counts as a check-in, so the check-in interval starts over
+    // instead of running out during the pause
+    columns: () => ({ lastCheckInAt: new Date() }),
+    eventType: 'trip_resumed',
+    buildMessage: (activityType) => buildTripResumedMessage(activityType),
+  },
+  {
+    action: 'cancel',
+    status: 'cancelled',
+    description: 'Call off a trip before it is completed',
+    reason: 'Cancelled by user',
+    ends: true,
+    eventType: 'trip_cancelled',
+    buildMessage: buildTripCancelledMessage,
+  },
+  {
+    action: 'resolve',
+    status: 'resolved',
+    description: 'Close a trip whose overdue or other alert has been dealt with. Closing an SOS needs the safety PIN '
+      + 'or the account password',
+    reason: 'Resolved by user',
+    ends: true,
+    reauthFrom: ['sos'],
+    eventType: 'alert_resolved',
+    buildMessage: buildAlertResolvedMessage,
+  },
+];
+
+const conflictResponseSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    status: { type: 'string' },
+  },
+};
+
+function rejectTransition(
+  app: App,
+  reply: FastifyReply,
+  trip: typeof schema.trips.$inferSelect,
+  status: string
+) {
+  app.logger.warn(
+    { userId: trip.userId, tripId: trip.id, from: trip.status, to: status },
+    'Illegal trip status transition'
+  );
+  return reply.status(409).send({
+    error: `Cannot change trip status from ${trip.status} to ${status}`,
+    status: trip.status,
+  });
+}
+
+const openTripResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    activityType: { type: 'string' },
+    startTime: { type: 'string', format: 'date-time' },
+    status: { type: 'string' },
+    lastLatitude: { type: 'string' },
+    lastLongitude: { type: 'string' },
+    lastLocationUpdate: { type: 'string', format: 'date-time' },
+    ...lastFixResponseSchema,
+    expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+    checkInIntervalMinutes: { type: ['integer', 'null'] },
+    lastCheckInAt: { type: 'string', format: 'date-time' },
+    ...locationUpdatePolicyResponseSchema,
+    plannedRoute: plannedRouteSummarySchema,
+    shareToken: { type: 'string', format: 'uuid' },
+    emergencyContacts: tripContactsResponseSchema,
+  },
+};
+
+// The user's trip that has not ended yet; there is at most one
+async function findOpenTrip(app: App, userId: string) {
+  return app.db.query.trips.findFirst({
+    where: and(
+      eq(schema.trips.userId, userId),
+      isNull(schema.trips.endTime)
+    ),
+    with: { ...withTripContacts, plannedRoute: true },
+  });
+}
+
+function formatOpenTrip(trip: TripWithRoute) {
+  return {
+    id: trip.id,
+    activityType: trip.activityType,
+    startTime: trip.startTime,
+    status: trip.status,
+    lastLatitude: formatDecimal(trip.lastLatitude),
+    lastLongitude: formatDecimal(trip.lastLongitude),
+    lastLocationUpdate: trip.lastLocationUpdate,
+    ...formatLastFix(trip),
+    expectedReturnTime: trip.expectedReturnTime,
+    checkInIntervalMinutes: trip.checkInIntervalMinutes,
+    lastCheckInAt: trip.lastCheckInAt,
+    ...formatLocationUpdatePolicy(trip),
+    shareToken: trip.shareToken,
+    plannedRoute: formatPlannedRouteSummary(trip.plannedRoute),
+    emergencyContacts: formatTripContacts(trip.emergencyContacts),
+  };
+}
+
+function rejectSecondOpenTrip(app: App, reply: FastifyReply, openTrip: TripWithRoute) {
+  app.logger.warn({ userId: openTrip.userId, tripId: openTrip.id }, 'User already has an open trip');
+  return reply.status(409).send({
+    error: 'Resume or end your open trip before starting a new one',
+    trip: formatOpenTrip(openTrip),
+  });
+}
+
+// Postgres error for a violated unique constraint or index
+function isUniqueViolation(error: any): boolean {
+  return (error?.code ?? error?.cause?.code) === '23505';
+}
+
+type TripWithRoute = typeof schema.trips.$inferSelect & {
+  emergencyContacts: TripContact[];
+  plannedRoute: typeof schema.plannedRoutes.$inferSelect | null;
+};
+
+/**
+ * Trip columns that change with new fixes: the status, and for trips with a
+ * planned route the current off-route stretch.
+ */
+function getFixStatusColumns(trip: TripWithRoute, fixes: RouteFix[]) {
+  if (!trip.plannedRoute) {
+    return { status: getStatusAfterFix(trip.status, null) };
+  }
+
+  const deviation = trackRouteDeviation(trip.plannedRoute.coordinates, trip.offRouteSince, fixes);
+  const status = getStatusAfterFix(trip.status, deviation.possiblyLost);
+
+  return {
+    status,
+    offRouteSince: deviation.offRouteSince,
+    ...(status === 'possibly_lost' && trip.status !== 'possibly_lost' ? { alertRaisedAt: new Date() } : {}),
+  };
+}
+
+/**
+ * Store a trip's new position and the status the fixes lead to. The status
+ * only changes while the trip is still in the status it was read with; when
+ * a concurrent SOS, end or watchdog alert moved it on first, only the
+ * position is stored. Returns the updated trip, if `where` matched, and the
+ * status it moved from.
+ */
+async function updateTripPosition(
+  app: App,
+  trip: TripWithRoute,
+  fixes: RouteFix[],
+  position: Partial<typeof schema.trips.$inferInsert>,
+  where?: SQL
+): Promise<{ updated: typeof schema.trips.$inferSelect | undefined; fromStatus: string }> {
+  const [claimed] = await app.db.update(schema.trips)
+    .set({ ...getFixStatusColumns(trip, fixes), ...position })
+    .where(and(
+      eq(schema.trips.id, trip.id),
+      eq(schema.trips.status, trip.status),
+      where
+    ))
+    .returning();
+
+  if (claimed) {
+    await recordTripTransition(
+      app,
+      trip.id,
+      trip.status,
+      claimed.status,
+      getFixTransitionReason(trip.status, claimed.status)
+    );
+    return { updated: claimed, fromStatus: trip.status };
+  }
+
+  const [updated] = await app.db.update(schema.trips)
+    .set(position)
+    .where(and(eq(schema.trips.id, trip.id), where))
+    .returning();
+
+  if (updated) {
+    app.logger.info(
+      { tripId: trip.id, from: trip.status, status: updated.status },
+      'Trip status changed by a concurrent request, storing the position only'
+    );
+  }
+  return { updated, fromStatus: updated?.status ?? trip.status };
+}
+
+/**
+ * Tell contacts about a trip's new position, or raise the possibly-lost alert
+ * when this fix pushed the trip into that state. Routine updates follow the
+ * trip's location update policy; the alert always goes out.
+ */
+async function notifyNewPosition(
+  app: App,
+  trip: TripWithRoute,
+  updated: typeof schema.trips.$inferSelect,
+  fix: FixMetadata
+) {
+  const latitude = formatDecimal(updated.lastLatitude);
+  const longitude = formatDecimal(updated.lastLongitude);
+
+  if (updated.status === 'possibly_lost' && trip.status !== 'possibly_lost') {
+    app.logger.warn(
+      { userId: trip.userId, tripId: trip.id, offRouteSince: updated.offRouteSince },
+      'Trip off planned route, alerting emergency contacts'
+    );
+
+    const message = buildPossiblyLostMessage(
+      trip.activityType,
+      OFF_ROUTE_DISTANCE_METERS,
+      updated.offRouteSince,
+      describePlannedRoute(trip.plannedRoute),
+      latitude,
+      longitude,
+      updated.lastLocationUpdate,
+      fix
+    );
+    await notifyTripContacts(app, getAlertRecipients(trip.emergencyContacts, null), message, {
+      eventType: 'possibly_lost',
+      alert: true,
+      shareToken: trip.shareToken,
+    });
+    return;
+  }
+
+  if (!(await claimLocationUpdate(app, updated, trip.status, new Date()))) {
+    app.logger.debug(
+      { tripId: trip.id, policy: updated.locationUpdatePolicy },
+      'Location update held back by the trip notification policy'
+    );
+    return;
+  }
+
+  await notifyTripContacts(app, trip.emergencyContacts, buildLocationUpdateMessage(latitude, longitude, fix), {
+    eventType: 'location_update',
+  });
+}
 
 export function registerTripRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
   app.fastify.get('/api/trips', {
     schema: {
-      description: 'Get user trips (latest 20)',
+      description: 'Get user trips, newest first by default, one page at a time',
       tags: ['trips'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: MAX_TRIPS_PAGE_SIZE, default: DEFAULT_TRIPS_PAGE_SIZE },
+          cursor: { type: 'string', description: 'nextCursor from the previous page' },
+          status: { type: 'string', description: 'Comma-separated list of statuses' },
+          activityType: { type: 'string' },
+          from: { type: 'string', format: 'date-time', description: 'Only trips started at or after this time' },
+          to: { type: 'string', format: 'date-time', description: 'Only trips started at or before this time' },
+          sort: { type: 'string', enum: ['newest', 'oldest'], default: 'newest' },
+        },
+      },
       response: {
         200: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string', format: 'uuid' },
-              activityType: { type: 'string' },
-              clothingDescription: { type: ['string', 'null'] },
-              vehicleDescription: { type: ['string', 'null'] },
-              startTime: { type: 'string', format: 'date-time' },
-              endTime: { type: ['string', 'null'], format: 'date-time' },
-              status: { type: 'string' },
-              startLatitude: { type: 'string' },
-              startLongitude: { type: 'string' },
-              lastLatitude: { type: 'string' },
-              lastLongitude: { type: 'string' },
-              lastLocationUpdate: { type: 'string', format: 'date-time' },
-              emergencyContact: {
+          type: 'object',
+          properties: {
+            nextCursor: { type: ['string', 'null'] },
+            trips: {
+              type: 'array',
+              items: {
                 type: 'object',
                 properties: {
-                  name: { type: 'string' },
-                  phoneNumber: { type: 'string' },
+                  id: { type: 'string', format: 'uuid' },
+                  activityType: { type: 'string' },
+                  clothingDescription: { type: ['string', 'null'] },
+                  vehicleDescription: { type: ['string', 'null'] },
+                  startTime: { type: 'string', format: 'date-time' },
+                  endTime: { type: ['string', 'null'], format: 'date-time' },
+                  status: { type: 'string' },
+                  startLatitude: { type: 'string' },
+                  startLongitude: { type: 'string' },
+                  lastLatitude: { type: 'string' },
+                  lastLongitude: { type: 'string' },
+                  lastLocationUpdate: { type: 'string', format: 'date-time' },
+                  ...lastFixResponseSchema,
+                  expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+                  checkInIntervalMinutes: { type: ['integer', 'null'] },
+                  plannedRoute: plannedRouteSummarySchema,
+                  stats: tripStatsSchema,
+                  emergencyContacts: tripContactsResponseSchema,
                 },
               },
             },
           },
         },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
         401: {
           type: 'object',
           properties: { error: { type: 'string' } },
         },
       },
     },
-  }, async (request: FastifyRequest, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Querystring: TripListQuery }>, reply: FastifyReply) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    app.logger.info({ userId: session.user.id }, 'Fetching user trips');
+    const { limit = DEFAULT_TRIPS_PAGE_SIZE, cursor, status, activityType, from, to, sort = 'newest' } = request.query;
 
-    const trips = await app.db.query.trips.findMany({
-      where: eq(schema.trips.userId, session.user.id),
-      with: {
-        emergencyContact: true,
-      },
-      orderBy: desc(schema.trips.createdAt),
-      limit: 20,
+    app.logger.info({ userId: session.user.id, status, activityType, from, to, sort }, 'Fetching user trips');
+
+    const conditions: SQL[] = [eq(schema.trips.userId, session.user.id)];
+
+    if (status) {
+      conditions.push(inArray(schema.trips.status, status.split(',').map((value) => value.trim())));
+    }
+
+    if (activityType) {
+      conditions.push(eq(schema.trips.activityType, activityType));
+    }
+
+    if (from) {
+      conditions.push(gte(schema.trips.startTime, new Date(from)));
+    }
+
+    if (to) {
+      conditions.push(lte(schema.trips.startTime, new Date(to)));
+    }
+
+    // Keyset pagination on (startTime, id) so pages stay stable as new trips are added
+    const after = sort === 'oldest' ? gt : lt;
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position) {
+        return reply.status(400).send({ error: 'Invalid cursor' });
+      }
+
+      conditions.push(or(
+        after(schema.trips.startTime, position.time),
+        and(eq(schema.trips.startTime, position.time), after(schema.trips.id, position.id))
+      ));
+    }
+
+    const order = sort === 'oldest' ? asc : desc;
+    const rows = await app.db.query.trips.findMany({
+      where: and(...conditions),
+      with: { ...withTripContacts, plannedRoute: true },
+      orderBy: [order(schema.trips.startTime), order(schema.trips.id)],
+      limit: limit + 1,
     });
 
+    const trips = rows.slice(0, limit);
+    const last = trips[trips.length - 1];
+    const nextCursor = rows.length > limit
+      ? encodeCursor({ time: last.startTime, id: last.id })
+      : null;
+
+    const stats = await getTripsStats(app, trips);
     const formattedTrips = trips.map((trip) => ({
       ...trip,
       startLatitude: formatDecimal(trip.startLatitude),
       startLongitude: formatDecimal(trip.startLongitude),
       lastLatitude: formatDecimal(trip.lastLatitude),
       lastLongitude: formatDecimal(trip.lastLongitude),
-      emergencyContact: {
-        name: trip.emergencyContact.name,
-        phoneNumber: trip.emergencyContact.phoneNumber,
-      },
+      plannedRoute: formatPlannedRouteSummary(trip.plannedRoute),
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
+      stats: stats.get(trip.id),
     }));
 
     app.logger.info({ userId: session.user.id, count: trips.length }, 'Trips fetched');
-    return formattedTrips;
+    return { trips: formattedTrips, nextCursor };
   });
 
   app.fastify.get('/api/trips/active', {
@@ -89,23 +504,8 @@ export function registerTripRoutes(app: App) {
       tags: ['trips'],
       response: {
         200: {
+          ...openTripResponseSchema,
           type: ['object', 'null'],
-          properties: {
-            id: { type: 'string', format: 'uuid' },
-            activityType: { type: 'string' },
-            startTime: { type: 'string', format: 'date-time' },
-            status: { type: 'string' },
-            lastLatitude: { type: 'string' },
-            lastLongitude: { type: 'string' },
-            lastLocationUpdate: { type: 'string', format: 'date-time' },
-            emergencyContact: {
-              type: 'object',
-              properties: {
-                name: { type: 'string' },
-                phoneNumber: { type: 'string' },
-              },
-            },
-          },
         },
         401: {
           type: 'object',
@@ -119,37 +519,15 @@ export function registerTripRoutes(app: App) {
 
     app.logger.info({ userId: session.user.id }, 'Fetching active trip');
 
-    const trip = await app.db.query.trips.findFirst({
-      where: and(
-        eq(schema.trips.userId, session.user.id),
-        eq(schema.trips.status, 'active')
-      ),
-      with: {
-        emergencyContact: true,
-      },
-    });
+    const trip = await findOpenTrip(app, session.user.id);
 
     if (!trip) {
       app.logger.info({ userId: session.user.id }, 'No active trip found');
       return null;
     }
 
-    const result = {
-      id: trip.id,
-      activityType: trip.activityType,
-      startTime: trip.startTime,
-      status: trip.status,
-      lastLatitude: trip.lastLatitude,
-      lastLongitude: trip.lastLongitude,
-      lastLocationUpdate: trip.lastLocationUpdate,
-      emergencyContact: {
-        name: trip.emergencyContact.name,
-        phoneNumber: trip.emergencyContact.phoneNumber,
-      },
-    };
-
     app.logger.info({ userId: session.user.id, tripId: trip.id }, 'Active trip found');
-    return result;
+    return formatOpenTrip(trip);
   });
 
   app.fastify.post('/api/trips/start', {
@@ -158,51 +536,66 @@ export function registerTripRoutes(app: App) {
       tags: ['trips'],
       body: {
         type: 'object',
-        required: ['emergencyContactId', 'activityType', 'latitude', 'longitude'],
+        required: ['emergencyContacts', 'activityType', 'latitude', 'longitude'],
         properties: {
-          emergencyContactId: { type: 'string', format: 'uuid' },
+          emergencyContacts: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['id'],
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                tier: { type: 'integer', minimum: 1, default: 1 },
+              },
+            },
+          },
           activityType: { type: 'string' },
           clothingDescription: { type: 'string' },
           vehicleDescription: { type: 'string' },
           latitude: { type: 'string' },
           longitude: { type: 'string' },
+          expectedReturnTime: { type: 'string', format: 'date-time' },
+          checkInIntervalMinutes: { type: 'integer', minimum: 5 },
+          ...locationUpdatePolicyBodySchema,
+          plannedRouteId: { type: 'string', format: 'uuid' },
         },
       },
       response: {
         201: {
           type: 'object',
           properties: {
-            id: { type: 'string', format: 'uuid' },
-            activityType: { type: 'string' },
-            startTime: { type: 'string', format: 'date-time' },
-            status: { type: 'string' },
-            lastLatitude: { type: 'string' },
-            lastLongitude: { type: 'string' },
-            lastLocationUpdate: { type: 'string', format: 'date-time' },
-            emergencyContact: {
-              type: 'object',
-              properties: {
-                name: { type: 'string' },
-                phoneNumber: { type: 'string' },
-              },
-            },
+            ...openTripResponseSchema.properties,
+            notifications: notificationsResponseSchema,
           },
         },
         401: {
           type: 'object',
           properties: { error: { type: 'string' } },
         },
+        409: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            trip: openTripResponseSchema,
+          },
+        },
       },
     },
   }, async (
     request: FastifyRequest<{
       Body: {
-        emergencyContactId: string;
+        emergencyContacts: { id: string; tier?: number }[];
         activityType: string;
         clothingDescription?: string;
         vehicleDescription?: string;
         latitude: string;
         longitude: string;
+        expectedReturnTime?: string;
+        checkInIntervalMinutes?: number;
+        locationUpdatePolicy?: LocationUpdatePolicy;
+        locationUpdateIntervalMinutes?: number;
+        plannedRouteId?: string;
       };
     }>,
     reply: FastifyReply
@@ -211,55 +604,126 @@ export function registerTripRoutes(app: App) {
     if (!session) return;
 
     const {
-      emergencyContactId,
+      emergencyContacts,
       activityType,
       clothingDescription,
       vehicleDescription,
       latitude,
       longitude,
+      expectedReturnTime,
+      checkInIntervalMinutes,
+      locationUpdatePolicy = 'every',
+      locationUpdateIntervalMinutes,
+      plannedRouteId,
     } = request.body;
 
     app.logger.info(
       {
         userId: session.user.id,
-        emergencyContactId,
+        emergencyContactIds: emergencyContacts.map((contact) => contact.id),
         activityType,
+        expectedReturnTime,
+        checkInIntervalMinutes,
+        locationUpdatePolicy,
+        plannedRouteId,
       },
       'Starting trip'
     );
 
-    const contact = await app.db.query.emergencyContacts.findFirst({
+    const now = new Date();
+    const expectedReturn = expectedReturnTime ? new Date(expectedReturnTime) : null;
+
+    if (expectedReturn && expectedReturn <= now) {
+      app.logger.warn(
+        { userId: session.user.id, expectedReturnTime },
+        'Expected return time is in the past'
+      );
+      return reply.status(400).send({ error: 'Expected return time must be in the future' });
+    }
+
+    const contactIds = [...new Set(emergencyContacts.map((contact) => contact.id))];
+
+    if (contactIds.length !== emergencyContacts.length) {
+      app.logger.warn({ userId: session.user.id }, 'Duplicate emergency contacts');
+      return reply.status(400).send({ error: 'Each emergency contact can only be added once' });
+    }
+
+    const contacts = await app.db.query.emergencyContacts.findMany({
       where: and(
-        eq(schema.emergencyContacts.id, emergencyContactId),
+        inArray(schema.emergencyContacts.id, contactIds),
         eq(schema.emergencyContacts.userId, session.user.id)
       ),
     });
 
-    if (!contact) {
+    if (contacts.length !== contactIds.length) {
       app.logger.warn(
-        { userId: session.user.id, emergencyContactId },
+        { userId: session.user.id, emergencyContactIds: contactIds },
         'Emergency contact not found'
       );
       return reply.status(400).send({ error: 'Emergency contact not found' });
     }
 
-    const now = new Date();
-    const trip = await app.db.insert(schema.trips).values({
-      userId: session.user.id,
-      emergencyContactId,
-      activityType,
-      clothingDescription,
-      vehicleDescription,
-      startTime: now,
-      startLatitude: latitude,
-      startLongitude: longitude,
-      lastLatitude: latitude,
-      lastLongitude: longitude,
-      lastLocationUpdate: now,
-      status: 'active',
-    }).returning();
+    if (plannedRouteId) {
+      const plannedRoute = await app.db.query.plannedRoutes.findFirst({
+        where: and(
+          eq(schema.plannedRoutes.id, plannedRouteId),
+          eq(schema.plannedRoutes.userId, session.user.id)
+        ),
+      });
+
+      if (!plannedRoute) {
+        app.logger.warn({ userId: session.user.id, plannedRouteId }, 'Planned route not found');
+        return reply.status(400).send({ error: 'Planned route not found' });
+      }
+    }
+
+    const openTrip = await findOpenTrip(app, session.user.id);
+    if (openTrip) {
+      return rejectSecondOpenTrip(app, reply, openTrip);
+    }
+
+    let trip: (typeof schema.trips.$inferSelect)[];
+    try {
+      trip = await app.db.insert(schema.trips).values({
+        userId: session.user.id,
+        activityType,
+        clothingDescription,
+        vehicleDescription,
+        startTime: now,
+        startLatitude: latitude,
+        startLongitude: longitude,
+        lastLatitude: latitude,
+        lastLongitude: longitude,
+        lastLocationUpdate: now,
+        lastCheckInAt: now,
+        expectedReturnTime: expectedReturn,
+        checkInIntervalMinutes,
+        ...toLocationUpdatePolicyColumns(locationUpdatePolicy, locationUpdateIntervalMinutes),
+        lastLocationNotifiedAt: now,
+        plannedRouteId,
+        status: 'active',
+      }).returning();
+    } catch (error) {
+      // Another request started a trip since the check above
+      const concurrentTrip = isUniqueViolation(error) ? await findOpenTrip(app, session.user.id) : null;
+      if (!concurrentTrip) throw error;
+      return rejectSecondOpenTrip(app, reply, concurrentTrip);
+    }
 
-    const tripData = trip[0];
+    await app.db.insert(schema.tripEmergencyContacts).values(
+      emergencyContacts.map((contact) => ({
+        tripId: trip[0].id,
+        emergencyContactId: contact.id,
+        tier: contact.tier ?? 1,
+      }))
+    );
+
+    await recordTripTransition(app, trip[0].id, null, 'active', 'Trip started');
+
+    const tripData = await app.db.query.trips.findFirst({
+      where: eq(schema.trips.id, trip[0].id),
+      with: { ...withTripContacts, plannedRoute: true },
+    });
 
     const message = buildTripStartMessage(
       activityType,
@@ -269,29 +733,21 @@ export function registerTripRoutes(app: App) {
       longitude
     );
 
-    await sendSMS(contact.phoneNumber, message, app.logger);
+    const notifications = await notifyTripContacts(app, tripData.emergencyContacts, message, {
+      eventType: 'trip_started',
+      shareToken: tripData.shareToken,
+    });
 
     app.logger.info(
       { userId: session.user.id, tripId: tripData.id },
       'Trip started successfully'
     );
 
-    const result = {
-      id: tripData.id,
-      activityType: tripData.activityType,
-      startTime: tripData.startTime,
-      status: tripData.status,
-      lastLatitude: formatDecimal(tripData.lastLatitude),
-      lastLongitude: formatDecimal(tripData.lastLongitude),
-      lastLocationUpdate: tripData.lastLocationUpdate,
-      emergencyContact: {
-        name: contact.name,
-        phoneNumber: contact.phoneNumber,
-      },
-    };
-
     reply.status(201);
-    return result;
+    return {
+      ...formatOpenTrip(tripData),
+      notifications: formatTripNotifications(notifications, tripData.emergencyContacts),
+    };
   });
 
   app.fastify.put('/api/trips/:id/location', {
@@ -311,6 +767,7 @@ export function registerTripRoutes(app: App) {
         properties: {
           latitude: { type: 'string' },
           longitude: { type: 'string' },
+          ...fixMetadataBodySchema,
         },
       },
       response: {
@@ -324,13 +781,10 @@ export function registerTripRoutes(app: App) {
             lastLatitude: { type: 'string' },
             lastLongitude: { type: 'string' },
             lastLocationUpdate: { type: 'string', format: 'date-time' },
-            emergencyContact: {
-              type: 'object',
-              properties: {
-                name: { type: 'string' },
-                phoneNumber: { type: 'string' },
-              },
-            },
+            ...lastFixResponseSchema,
+            expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+            checkInIntervalMinutes: { type: ['integer', 'null'] },
+            emergencyContacts: tripContactsResponseSchema,
           },
         },
         401: {
@@ -346,7 +800,7 @@ export function registerTripRoutes(app: App) {
   }, async (
     request: FastifyRequest<{
       Params: { id: string };
-      Body: { latitude: string; longitude: string };
+      Body: { latitude: string; longitude: string } & FixMetadata;
     }>,
     reply: FastifyReply
   ) => {
@@ -355,6 +809,7 @@ export function registerTripRoutes(app: App) {
 
     const { id } = request.params;
     const { latitude, longitude } = request.body;
+    const fix = pickFixMetadata(request.body);
 
     app.logger.info(
       { userId: session.user.id, tripId: id, latitude, longitude },
@@ -366,9 +821,7 @@ export function registerTripRoutes(app: App) {
         eq(schema.trips.id, id),
         eq(schema.trips.userId, session.user.id)
       ),
-      with: {
-        emergencyContact: true,
-      },
+      with: { ...withTripContacts, plannedRoute: true },
     });
 
     if (!trip) {
@@ -376,7 +829,7 @@ export function registerTripRoutes(app: App) {
       return reply.status(404).send({ error: 'Trip not found' });
     }
 
-    if (trip.status !== 'active') {
+    if (!isTripTracking(trip.status)) {
       app.logger.warn(
         { userId: session.user.id, tripId: id, status: trip.status },
         'Trip is not active'
@@ -390,22 +843,32 @@ export function registerTripRoutes(app: App) {
       tripId: id,
       latitude,
       longitude,
+      ...fix,
       timestamp: now,
     });
 
-    const updated = await app.db.update(schema.trips)
-      .set({
+    const { updated, fromStatus } = await updateTripPosition(
+      app,
+      trip,
+      [{ latitude, longitude, timestamp: now }],
+      {
         lastLatitude: latitude,
         lastLongitude: longitude,
         lastLocationUpdate: now,
-      })
-      .where(eq(schema.trips.id, id))
-      .returning();
+        lastCheckInAt: now,
+        ...toLastFixColumns(fix),
+      }
+    );
+
+    if (!updated) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
 
-    const tripData = updated[0];
+    const tripData = updated;
 
-    const message = buildLocationUpdateMessage(latitude, longitude);
-    await sendSMS(trip.emergencyContact.phoneNumber, message, app.logger);
+    publishTripEvent({ type: 'location', tripId: id, latitude, longitude, timestamp: now });
+    await notifyNewPosition(app, { ...trip, status: fromStatus }, tripData, fix);
 
     app.logger.info(
       { userId: session.user.id, tripId: id },
@@ -420,18 +883,18 @@ export function registerTripRoutes(app: App) {
       lastLatitude: formatDecimal(tripData.lastLatitude),
       lastLongitude: formatDecimal(tripData.lastLongitude),
       lastLocationUpdate: tripData.lastLocationUpdate,
-      emergencyContact: {
-        name: trip.emergencyContact.name,
-        phoneNumber: trip.emergencyContact.phoneNumber,
-      },
+      ...formatLastFix(tripData),
+      expectedReturnTime: tripData.expectedReturnTime,
+      checkInIntervalMinutes: tripData.checkInIntervalMinutes,
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
     };
 
     return result;
   });
 
-  app.fastify.put('/api/trips/:id/complete', {
+  app.fastify.post('/api/trips/:id/locations', {
     schema: {
-      description: 'Complete a trip',
+      description: 'Upload a batch of location fixes recorded by the device, e.g. while offline',
       tags: ['trips'],
       params: {
         type: 'object',
@@ -442,6 +905,24 @@ export function registerTripRoutes(app: App) {
       },
       body: {
         type: 'object',
+        required: ['locations'],
+        properties: {
+          locations: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_LOCATION_BATCH_SIZE,
+            items: {
+              type: 'object',
+              required: ['latitude', 'longitude', 'timestamp'],
+              properties: {
+                latitude: { type: 'string' },
+                longitude: { type: 'string' },
+                timestamp: { type: 'string', format: 'date-time' },
+                ...fixMetadataBodySchema,
+              },
+            },
+          },
+        },
       },
       response: {
         200: {
@@ -450,17 +931,22 @@ export function registerTripRoutes(app: App) {
             id: { type: 'string', format: 'uuid' },
             activityType: { type: 'string' },
             startTime: { type: 'string', format: 'date-time' },
-            endTime: { type: ['string', 'null'], format: 'date-time' },
             status: { type: 'string' },
-            emergencyContact: {
-              type: 'object',
-              properties: {
-                name: { type: 'string' },
-                phoneNumber: { type: 'string' },
-              },
-            },
+            lastLatitude: { type: 'string' },
+            lastLongitude: { type: 'string' },
+            lastLocationUpdate: { type: 'string', format: 'date-time' },
+            ...lastFixResponseSchema,
+            expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+            checkInIntervalMinutes: { type: ['integer', 'null'] },
+            accepted: { type: 'integer' },
+            duplicates: { type: 'integer' },
+            emergencyContacts: tripContactsResponseSchema,
           },
         },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
         401: {
           type: 'object',
           properties: { error: { type: 'string' } },
@@ -474,7 +960,7 @@ export function registerTripRoutes(app: App) {
   }, async (
     request: FastifyRequest<{
       Params: { id: string };
-      Body: Record<string, never>;
+      Body: { locations: ({ latitude: string; longitude: string; timestamp: string } & FixMetadata)[] };
     }>,
     reply: FastifyReply
   ) => {
@@ -482,17 +968,19 @@ export function registerTripRoutes(app: App) {
     if (!session) return;
 
     const { id } = request.params;
+    const { locations } = request.body;
 
-    app.logger.info({ userId: session.user.id, tripId: id }, 'Completing trip');
+    app.logger.info(
+      { userId: session.user.id, tripId: id, count: locations.length },
+      'Uploading trip location batch'
+    );
 
     const trip = await app.db.query.trips.findFirst({
       where: and(
         eq(schema.trips.id, id),
         eq(schema.trips.userId, session.user.id)
       ),
-      with: {
-        emergencyContact: true,
-      },
+      with: { ...withTripContacts, plannedRoute: true },
     });
 
     if (!trip) {
@@ -500,40 +988,105 @@ export function registerTripRoutes(app: App) {
       return reply.status(404).send({ error: 'Trip not found' });
     }
 
-    const now = new Date();
-    const updated = await app.db.update(schema.trips)
-      .set({
-        status: 'completed',
-        endTime: now,
+    if (!isTripTracking(trip.status)) {
+      app.logger.warn(
+        { userId: session.user.id, tripId: id, status: trip.status },
+        'Trip is not active'
+      );
+      return reply.status(400).send({ error: 'Trip is not active' });
+    }
+
+    const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+    const fixes = locations
+      .map((location) => ({ ...location, timestamp: new Date(location.timestamp) }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (fixes[fixes.length - 1].timestamp.getTime() > latestAllowed) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Location timestamp in the future');
+      return reply.status(400).send({ error: 'Location timestamps cannot be in the future' });
+    }
+
+    // Fixes already stored for this trip (same device timestamp) are skipped
+    const inserted = await app.db.insert(schema.locationUpdates)
+      .values(fixes.map((fix) => ({
+        tripId: id,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        ...pickFixMetadata(fix),
+        timestamp: fix.timestamp,
+      })))
+      .onConflictDoNothing({
+        target: [schema.locationUpdates.tripId, schema.locationUpdates.timestamp],
       })
-      .where(eq(schema.trips.id, id))
       .returning();
 
-    const tripData = updated[0];
+    const newest = fixes[fixes.length - 1];
+    let tripData = trip;
+
+    if (inserted.length > 0 && newest.timestamp > trip.lastLocationUpdate) {
+      // Only move the trip forward, and never past a fix stored by a concurrent request
+      const { updated, fromStatus } = await updateTripPosition(
+        app,
+        trip,
+        fixes.filter((fix) => fix.timestamp > trip.lastLocationUpdate),
+        {
+          lastLatitude: newest.latitude,
+          lastLongitude: newest.longitude,
+          lastLocationUpdate: newest.timestamp,
+          lastCheckInAt: new Date(),
+          ...toLastFixColumns(newest),
+        },
+        lt(schema.trips.lastLocationUpdate, newest.timestamp)
+      );
 
-    const message = buildTripCompleteMessage();
-    await sendSMS(trip.emergencyContact.phoneNumber, message, app.logger);
+      if (updated) {
+        tripData = { ...trip, ...updated };
+        await notifyNewPosition(app, { ...trip, status: fromStatus }, updated, pickFixMetadata(newest));
+      }
+    }
 
-    app.logger.info({ userId: session.user.id, tripId: id }, 'Trip completed');
+    for (const fix of inserted) {
+      publishTripEvent({
+        type: 'location',
+        tripId: id,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        timestamp: fix.timestamp,
+      });
+    }
+
+    app.logger.info(
+      {
+        userId: session.user.id,
+        tripId: id,
+        accepted: inserted.length,
+        duplicates: fixes.length - inserted.length,
+      },
+      'Trip location batch stored'
+    );
 
     const result = {
       id: tripData.id,
       activityType: tripData.activityType,
       startTime: tripData.startTime,
-      endTime: tripData.endTime,
       status: tripData.status,
-      emergencyContact: {
-        name: trip.emergencyContact.name,
-        phoneNumber: trip.emergencyContact.phoneNumber,
-      },
+      lastLatitude: formatDecimal(tripData.lastLatitude),
+      lastLongitude: formatDecimal(tripData.lastLongitude),
+      lastLocationUpdate: tripData.lastLocationUpdate,
+      ...formatLastFix(tripData),
+      expectedReturnTime: tripData.expectedReturnTime,
+      checkInIntervalMinutes: tripData.checkInIntervalMinutes,
+      accepted: inserted.length,
+      duplicates: fixes.length - inserted.length,
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
     };
 
     return result;
   });
 
-  app.fastify.put('/api/trips/:id/sos', {
+  app.fastify.get('/api/trips/:id', {
     schema: {
-      description: 'Send SOS alert for a trip',
+      description: 'Get a trip with its recorded location updates in time order',
       tags: ['trips'],
       params: {
         type: 'object',
@@ -542,12 +1095,15 @@ export function registerTripRoutes(app: App) {
           id: { type: 'string', format: 'uuid' },
         },
       },
-      body: {
+      querystring: {
         type: 'object',
-        required: ['latitude', 'longitude'],
         properties: {
-          latitude: { type: 'string' },
-          longitude: { type: 'string' },
+          maxPoints: { type: 'integer', minimum: 2, description: 'Down-sample the track to about this many points' },
+          since: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Only location updates the server received after this time, e.g. the last lastReceivedAt',
+          },
         },
       },
       response: {
@@ -556,16 +1112,44 @@ export function registerTripRoutes(app: App) {
           properties: {
             id: { type: 'string', format: 'uuid' },
             activityType: { type: 'string' },
+            clothingDescription: { type: ['string', 'null'] },
+            vehicleDescription: { type: ['string', 'null'] },
             startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: ['string', 'null'], format: 'date-time' },
             status: { type: 'string' },
+            startLatitude: { type: 'string' },
+            startLongitude: { type: 'string' },
             lastLatitude: { type: 'string' },
             lastLongitude: { type: 'string' },
             lastLocationUpdate: { type: 'string', format: 'date-time' },
-            emergencyContact: {
-              type: 'object',
-              properties: {
-                name: { type: 'string' },
-                phoneNumber: { type: 'string' },
+            ...lastFixResponseSchema,
+            expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+            checkInIntervalMinutes: { type: ['integer', 'null'] },
+            ...locationUpdatePolicyResponseSchema,
+            shareToken: { type: 'string', format: 'uuid' },
+            plannedRoute: plannedRouteSummarySchema,
+            emergencyContacts: tripContactsResponseSchema,
+            transitions: tripTransitionsResponseSchema,
+            totalPoints: { type: 'integer' },
+            // When the newest of the returned updates was received, or since when none were
+            lastReceivedAt: { type: ['string', 'null'], format: 'date-time' },
+            locationUpdates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  latitude: { type: 'string' },
+                  longitude: { type: 'string' },
+                  timestamp: { type: 'string', format: 'date-time' },
+                  accuracy: { type: ['number', 'null'] },
+                  altitude: { type: ['number', 'null'] },
+                  speed: { type: ['number', 'null'] },
+                  heading: { type: ['number', 'null'] },
+                  batteryLevel: { type: ['number', 'null'] },
+                  isSos: { type: 'boolean' },
+                  receivedAt: { type: 'string', format: 'date-time' },
+                },
               },
             },
           },
@@ -580,10 +1164,371 @@ export function registerTripRoutes(app: App) {
         },
       },
     },
+  }, async (
+    request: FastifyRequest<{ Params: { id: string }; Querystring: { maxPoints?: number; since?: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    const { maxPoints, since } = request.query;
+
+    app.logger.info({ userId: session.user.id, tripId: id, maxPoints, since }, 'Fetching trip');
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+      with: {
+        ...withTripContacts,
+        plannedRoute: true,
+        locationUpdates: {
+          // Filtered on when fixes arrived rather than when they were
+          // recorded, so a batch uploaded late is not skipped
+          where: since ? gt(schema.locationUpdates.receivedAt, new Date(since)) : undefined,
+          orderBy: (updates, { asc }) => [asc(updates.timestamp)],
+        },
+        statusTransitions: {
+          orderBy: (transitions, { asc }) => [asc(transitions.createdAt)],
+        },
+      },
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    const locationUpdates = maxPoints
+      ? downsampleTrack(trip.locationUpdates, maxPoints)
+      : trip.locationUpdates;
+
+    const [{ totalPoints }] = await app.db
+      .select({ totalPoints: count() })
+      .from(schema.locationUpdates)
+      .where(eq(schema.locationUpdates.tripId, id));
+
+    const lastReceivedAt = trip.locationUpdates.reduce<Date | null>(
+      (latest, update) => (latest && latest >= update.receivedAt ? latest : update.receivedAt),
+      since ? new Date(since) : null
+    );
+
+    app.logger.info(
+      { userId: session.user.id, tripId: id, totalPoints, returned: locationUpdates.length },
+      'Trip fetched'
+    );
+
+    return {
+      ...trip,
+      startLatitude: formatDecimal(trip.startLatitude),
+      startLongitude: formatDecimal(trip.startLongitude),
+      lastLatitude: formatDecimal(trip.lastLatitude),
+      lastLongitude: formatDecimal(trip.lastLongitude),
+      plannedRoute: formatPlannedRouteSummary(trip.plannedRoute),
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
+      transitions: trip.statusTransitions,
+      totalPoints,
+      lastReceivedAt,
+      locationUpdates: locationUpdates.map((update) => ({
+        ...update,
+        latitude: formatDecimal(update.latitude),
+        longitude: formatDecimal(update.longitude),
+      })),
+    };
+  });
+
+  app.fastify.get('/api/trips/:id/stats', {
+    schema: {
+      description: 'Get distance, moving time, speed and elevation statistics for a trip',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: tripStatsSchema,
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+
+    app.logger.info({ userId: session.user.id, tripId: id }, 'Fetching trip stats');
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+      with: {
+        locationUpdates: true,
+      },
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    return computeTripStats(trip);
+  });
+
+  app.fastify.put('/api/trips/:id/notification-policy', {
+    schema: {
+      description: 'Choose how routine location updates reach emergency contacts: every update, at most one every '
+        + 'interval, a digest at each interval, or only on status changes. SOS and other alerts always go out at once',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['locationUpdatePolicy'],
+        properties: locationUpdatePolicyBodySchema,
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            ...locationUpdatePolicyResponseSchema,
+          },
+        },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: { locationUpdatePolicy: LocationUpdatePolicy; locationUpdateIntervalMinutes?: number };
+    }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    const { locationUpdatePolicy, locationUpdateIntervalMinutes } = request.body;
+
+    app.logger.info(
+      { userId: session.user.id, tripId: id, locationUpdatePolicy, locationUpdateIntervalMinutes },
+      'Updating trip notification policy'
+    );
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    if (trip.endTime) {
+      return reply.status(400).send({ error: 'Trip has already ended' });
+    }
+
+    const [updated] = await app.db.update(schema.trips)
+      .set(toLocationUpdatePolicyColumns(locationUpdatePolicy, locationUpdateIntervalMinutes))
+      .where(eq(schema.trips.id, id))
+      .returning();
+
+    return {
+      id: updated.id,
+      ...formatLocationUpdatePolicy(updated),
+    };
+  });
+
+  app.fastify.put('/api/trips/:id/complete', {
+    schema: {
+      description: 'Complete a trip',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string', maxLength: 500 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            activityType: { type: 'string' },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: ['string', 'null'], format: 'date-time' },
+            status: { type: 'string' },
+            stats: tripStatsSchema,
+            emergencyContacts: tripContactsResponseSchema,
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        409: conflictResponseSchema,
+      },
+    },
   }, async (
     request: FastifyRequest<{
       Params: { id: string };
-      Body: { latitude: string; longitude: string };
+      Body: { reason?: string };
+    }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+
+    app.logger.info({ userId: session.user.id, tripId: id }, 'Completing trip');
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+      with: { ...withTripContacts, locationUpdates: true },
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    if (!canTransition(trip.status, 'completed')) {
+      return rejectTransition(app, reply, trip, 'completed');
+    }
+
+    const endTime = new Date();
+    const stats = computeTripStats({ ...trip, endTime });
+    const tripData = await transitionTrip(
+      app,
+      trip,
+      'completed',
+      request.body?.reason || 'Completed by user',
+      { endTime, stats }
+    );
+
+    if (!tripData) {
+      return rejectTransition(app, reply, trip, 'completed');
+    }
+
+    const message = buildTripCompleteMessage(stats);
+    await notifyTripContacts(app, trip.emergencyContacts, message, { eventType: 'trip_completed' });
+
+    app.logger.info({ userId: session.user.id, tripId: id }, 'Trip completed');
+
+    const result = {
+      id: tripData.id,
+      activityType: tripData.activityType,
+      startTime: tripData.startTime,
+      endTime: tripData.endTime,
+      status: tripData.status,
+      stats,
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
+    };
+
+    return result;
+  });
+
+  app.fastify.put('/api/trips/:id/sos', {
+    schema: {
+      description: 'Send SOS alert for a trip',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['latitude', 'longitude'],
+        properties: {
+          latitude: { type: 'string' },
+          longitude: { type: 'string' },
+          ...fixMetadataBodySchema,
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            activityType: { type: 'string' },
+            startTime: { type: 'string', format: 'date-time' },
+            status: { type: 'string' },
+            lastLatitude: { type: 'string' },
+            lastLongitude: { type: 'string' },
+            lastLocationUpdate: { type: 'string', format: 'date-time' },
+            ...lastFixResponseSchema,
+            expectedReturnTime: { type: ['string', 'null'], format: 'date-time' },
+            checkInIntervalMinutes: { type: ['integer', 'null'] },
+            emergencyContacts: tripContactsResponseSchema,
+            notifications: notificationsResponseSchema,
+          },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        409: conflictResponseSchema,
+      },
+    },
+  }, async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: { latitude: string; longitude: string } & FixMetadata;
     }>,
     reply: FastifyReply
   ) => {
@@ -592,6 +1537,7 @@ export function registerTripRoutes(app: App) {
 
     const { id } = request.params;
     const { latitude, longitude } = request.body;
+    const fix = pickFixMetadata(request.body);
 
     app.logger.info(
       { userId: session.user.id, tripId: id, latitude, longitude },
@@ -603,9 +1549,7 @@ export function registerTripRoutes(app: App) {
         eq(schema.trips.id, id),
         eq(schema.trips.userId, session.user.id)
       ),
-      with: {
-        emergencyContact: true,
-      },
+      with: { ...withTripContacts, plannedRoute: true },
     });
 
     if (!trip) {
@@ -613,34 +1557,47 @@ export function registerTripRoutes(app: App) {
       return reply.status(404).send({ error: 'Trip not found' });
     }
 
+    if (!canTransition(trip.status, 'sos')) {
+      return rejectTransition(app, reply, trip, 'sos');
+    }
+
     const now = new Date();
 
+    const tripData = await transitionTrip(app, trip, 'sos', 'SOS raised by user', {
+      lastLatitude: latitude,
+      lastLongitude: longitude,
+      lastLocationUpdate: now,
+      ...toLastFixColumns(fix),
+    });
+
+    if (!tripData) {
+      return rejectTransition(app, reply, trip, 'sos');
+    }
+
     await app.db.insert(schema.locationUpdates).values({
       tripId: id,
       latitude,
       longitude,
+      ...fix,
+      isSos: true,
       timestamp: now,
     });
 
-    const updated = await app.db.update(schema.trips)
-      .set({
-        status: 'sos',
-        lastLatitude: latitude,
-        lastLongitude: longitude,
-        lastLocationUpdate: now,
-      })
-      .where(eq(schema.trips.id, id))
-      .returning();
-
-    const tripData = updated[0];
+    publishTripEvent({ type: 'location', tripId: id, latitude, longitude, timestamp: now });
 
     const message = buildSOSMessage(
       trip.clothingDescription,
       trip.vehicleDescription,
       latitude,
-      longitude
+      longitude,
+      fix,
+      describePlannedRoute(trip.plannedRoute)
     );
-    await sendSMS(trip.emergencyContact.phoneNumber, message, app.logger);
+    const notifications = await notifyTripContacts(app, trip.emergencyContacts, message, {
+      eventType: 'sos',
+      alert: true,
+      shareToken: trip.shareToken,
+    });
 
     app.logger.info(
       { userId: session.user.id, tripId: id },
@@ -655,12 +1612,294 @@ export function registerTripRoutes(app: App) {
       lastLatitude: formatDecimal(tripData.lastLatitude),
       lastLongitude: formatDecimal(tripData.lastLongitude),
       lastLocationUpdate: tripData.lastLocationUpdate,
-      emergencyContact: {
-        name: trip.emergencyContact.name,
-        phoneNumber: trip.emergencyContact.phoneNumber,
-      },
+      ...formatLastFix(tripData),
+      expectedReturnTime: tripData.expectedReturnTime,
+      checkInIntervalMinutes: tripData.checkInIntervalMinutes,
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
+      notifications: formatTripNotifications(notifications, trip.emergencyContacts),
     };
 
     return result;
   });
+
+  app.fastify.put('/api/trips/:id/sos/cancel', {
+    schema: {
+      description: 'Call off an SOS sent by mistake. Needs the safety PIN or the account password, '
+        + 'and is the only way out of an SOS',
+      tags: ['trips'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          ...reauthBodySchema,
+          reason: { type: 'string', maxLength: 500 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            activityType: { type: 'string' },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: ['string', 'null'], format: 'date-time' },
+            status: { type: 'string' },
+            notifiedContacts: { type: 'integer' },
+            emergencyContacts: tripContactsResponseSchema,
+          },
+        },
+        400: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        401: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        403: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        404: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+        409: conflictResponseSchema,
+        429: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  }, async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: ReauthCredentials & { reason?: string };
+    }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params;
+    const { pin, password, reason } = request.body ?? {};
+
+    app.logger.info({ userId: session.user.id, tripId: id }, 'Cancelling SOS');
+
+    if (!pin && !password) {
+      return reply.status(400).send({ error: 'Enter your safety PIN or password to cancel the SOS' });
+    }
+
+    const trip = await app.db.query.trips.findFirst({
+      where: and(
+        eq(schema.trips.id, id),
+        eq(schema.trips.userId, session.user.id)
+      ),
+      with: {
+        ...withTripContacts,
+        locationUpdates: {
+          where: eq(schema.locationUpdates.isSos, true),
+          orderBy: (updates, { desc }) => [desc(updates.timestamp)],
+          limit: 1,
+        },
+      },
+    });
+
+    if (!trip) {
+      app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+      return reply.status(404).send({ error: 'Trip not found' });
+    }
+
+    if (trip.status !== 'sos') {
+      return rejectTransition(app, reply, trip, 'active');
+    }
+
+    const reauth = await verifyReauth(app, session.user.id, { pin, password });
+    if (reauth !== 'verified') {
+      app.logger.warn({ userId: session.user.id, tripId: id, reauth }, 'SOS cancel re-authentication failed');
+      return rejectReauth(reply, reauth);
+    }
+
+    const tripData = await transitionTrip(
+      app,
+      trip,
+      'active',
+      reason || 'False alarm: SOS cancelled by user'
+    );
+
+    if (!tripData) {
+      return rejectTransition(app, reply, trip, 'active');
+    }
+
+    // Everyone who was sent the SOS hears that it was a false alarm
+    const [sosFix] = trip.locationUpdates;
+    const recipients = sosFix
+      ? getAlertedContacts(trip.emergencyContacts, sosFix.timestamp)
+      : trip.emergencyContacts;
+
+    await notifyTripContacts(app, recipients, buildSOSCancelledMessage(trip.activityType), {
+      eventType: 'sos_cancelled',
+    });
+
+    app.logger.info(
+      { userId: session.user.id, tripId: id, notifiedContacts: recipients.length },
+      'SOS cancelled'
+    );
+
+    return {
+      id: tripData.id,
+      activityType: tripData.activityType,
+      startTime: tripData.startTime,
+      endTime: tripData.endTime,
+      status: tripData.status,
+      notifiedContacts: recipients.length,
+      emergencyContacts: formatTripContacts(trip.emergencyContacts),
+    };
+  });
+
+  for (const {
+    action, status, description, reason, from, ends, columns, reauthFrom, eventType, buildMessage,
+  } of STATUS_ACTIONS) {
+
+    app.fastify.put(`/api/trips/:id/${action}`, {
+      schema: {
+        description,
+        tags: ['trips'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            ...(reauthFrom ? reauthBodySchema : {}),
+            reason: { type: 'string', maxLength: 500 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', format: 'uuid' },
+              activityType: { type: 'string' },
+              startTime: { type: 'string', format: 'date-time' },
+              endTime: { type: ['string', 'null'], format: 'date-time' },
+              status: { type: 'string' },
+              // Set once the trip has ended
+              stats: { ...tripStatsSchema, type: ['object', 'null'] },
+              emergencyContacts: tripContactsResponseSchema,
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          409: conflictResponseSchema,
+          // Missing, wrong or locked re-authentication
+          ...(reauthFrom ? {
+            400: {
+              type: 'object',
+              properties: { error: { type: 'string' } },
+            },
+            403: {
+              type: 'object',
+              properties: { error: { type: 'string' } },
+            },
+            429: {
+              type: 'object',
+              properties: { error: { type: 'string' } },
+            },
+          } : {}),
+        },
+      },
+    }, async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Body: ReauthCredentials & { reason?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userReason = request.body?.reason;
+
+      app.logger.info({ userId: session.user.id, tripId: id, status }, 'Changing trip status');
+
+      const trip = await app.db.query.trips.findFirst({
+        where: and(
+          eq(schema.trips.id, id),
+          eq(schema.trips.userId, session.user.id)
+        ),
+        // Fixes are only needed for the stats of a trip that ends
+        with: { ...withTripContacts, locationUpdates: ends },
+      });
+
+      if (!trip) {
+        app.logger.warn({ userId: session.user.id, tripId: id }, 'Trip not found');
+        return reply.status(404).send({ error: 'Trip not found' });
+      }
+
+      if (!canTransition(trip.status, status) || (from && !from.includes(trip.status as TripStatus))) {
+        return rejectTransition(app, reply, trip, status);
+      }
+
+      if (reauthFrom?.includes(trip.status as TripStatus)) {
+        const { pin, password } = request.body ?? {};
+        if (!pin && !password) {
+          return reply.status(400).send({ error: 'Enter your safety PIN or password to end the SOS' });
+        }
+
+        const reauth = await verifyReauth(app, session.user.id, { pin, password });
+        if (reauth !== 'verified') {
+          app.logger.warn({ userId: session.user.id, tripId: id, status, reauth }, 'Trip status re-authentication failed');
+          return rejectReauth(reply, reauth);
+        }
+      }
+
+      // Stats are stored when the trip ends, the same as for a completed trip
+      const endTime = new Date();
+      const tripData = await transitionTrip(
+        app,
+        trip,
+        status,
+        userReason || reason,
+        { ...(ends ? { endTime, stats: computeTripStats({ ...trip, endTime }) } : {}), ...columns?.() }
+      );
+
+      if (!tripData) {
+        return rejectTransition(app, reply, trip, status);
+      }
+
+      await notifyTripContacts(app, trip.emergencyContacts, buildMessage(trip.activityType, userReason), {
+        eventType,
+      });
+
+      app.logger.info({ userId: session.user.id, tripId: id, status }, 'Trip status changed');
+
+      return {
+        id: tripData.id,
+        activityType: tripData.activityType,
+        startTime: tripData.startTime,
+        endTime: tripData.endTime,
+        status: tripData.status,
+        stats: tripData.stats,
+        emergencyContacts: formatTripContacts(trip.emergencyContacts),
+      };
+    });
+  }
 }
@@ -0,0 +1,79 @@
+import nodemailer from 'nodemailer';
+import { type Transport, type TransportResult, createTransportChain } from './transport-chain.js';
+
+// The messageId is the Message-ID of the sent email, when the transport assigns one
+export type EmailResult = TransportResult;
+
+export type Email = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type EmailTransport = Transport<Email>;
+
+const EMAIL_OUTBOX_FILE = process.env.EMAIL_OUTBOX_FILE || 'email-outbox.jsonl';
+
+// Sender of every email, e.g. "Trip Safety <alerts@example.com>"
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Trip Safety <alerts@localhost>';
+
+const SMTP_TIMEOUT_MS = Number(process.env.SMTP_TIMEOUT_MS) || 15 * 1000;
+
+// Any SMTP server, including a local stand-in such as Mailpit on port 1025.
+// Without SMTP_SECURE the connection is upgraded with STARTTLS when the
+// server offers it; with credentials set, the upgrade is required so they
+// never cross the network in the clear.
+function createSmtpTransport(host: string): EmailTransport {
+  const secure = process.env.SMTP_SECURE === 'true';
+  const user = process.env.SMTP_USER || undefined;
+  const mailer = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    requireTLS: !secure && Boolean(user),
+    auth: user ? { user, pass: process.env.SMTP_PASSWORD || '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      const info = await mailer.sendMail({ ...email, from: EMAIL_FROM });
+      return { transport: 'smtp', messageId: info.messageId ?? null };
+    },
+  };
+}
+
+function createTransport(name: string): EmailTransport {
+  switch (name) {
+    case 'smtp': {
+      const { SMTP_HOST } = process.env;
+      if (!SMTP_HOST) {
+        throw new Error('SMTP transport needs SMTP_HOST');
+      }
+      return createSmtpTransport(SMTP_HOST);
+    }
+    default:
+      throw new Error(`Unknown email transport "${name}"`);
+  }
+}
+
+/**
+ * The failover chain of email transports. Email is optional: without a
+ * transport contacts are sent SMS instead.
+ */
+export const emailTransports = createTransportChain<Email>({
+  channel: 'Email',
+  // Comma-separated transports to try in order, e.g. "smtp,file"
+  envName: 'EMAIL_TRANSPORTS',
+  // Without explicit configuration, send through SMTP when it is set up
+  defaultNames: () => (process.env.SMTP_HOST ? ['smtp'] : []),
+  createTransport,
+  outboxFile: EMAIL_OUTBOX_FILE,
+  describe: (email) => ({ to: email.to }),
+  toRecord: (email) => ({ from: EMAIL_FROM, ...email }),
+  optional: true,
+});
@@ -0,0 +1,196 @@
+import { desc, eq } from 'drizzle-orm';
+import type { FastifyBaseLogger } from 'fastify';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { type Email, type EmailResult, emailTransports } from './email-transports.js';
+import { escapeHtml } from './html.js';
+import { formatDecimal } from './sms.js';
+import {
+  type Language,
+  type MessageRecipient,
+  formatTime,
+  getRecipientLanguage,
+  getNotificationTitle,
+} from './sms-templates.js';
+
+// Most recent fixes listed in the trail section of trip emails
+const EMAIL_TRAIL_POINTS = Number(process.env.EMAIL_TRAIL_POINTS) || 10;
+
+// Static map image for trip emails, e.g. from a provider that draws a marker
+// and a path. {latitude} and {longitude} are the last position, {path} the
+// recent trail as "lat,lon|lat,lon|..." from oldest to newest. Without it
+// the OpenStreetMap tile around the last position is shown.
+const STATIC_MAP_URL_TEMPLATE = process.env.STATIC_MAP_URL_TEMPLATE || '';
+
+// Zoom level of the OpenStreetMap tile used when no static map service is set
+const MAP_TILE_ZOOM = 14;
+
+export type EmailTrip = typeof schema.trips.$inferSelect & {
+  locationUpdates: (typeof schema.locationUpdates.$inferSelect)[];
+};
+
+const EMAIL_LABELS = {
+  tripDetails: { en: 'Trip details', es: 'Detalles del viaje' },
+  activity: { en: 'Activity', es: 'Actividad' },
+  clothing: { en: 'Clothing', es: 'Ropa' },
+  vehicle: { en: 'Vehicle', es: 'Vehículo' },
+  started: { en: 'Started', es: 'Inicio' },
+  expectedReturn: { en: 'Expected back', es: 'Regreso previsto' },
+  lastLocation: { en: 'Last known location', es: 'Última ubicación conocida' },
+  recentTrail: { en: 'Recent trail', es: 'Recorrido reciente' },
+  time: { en: 'Time', es: 'Hora' },
+  location: { en: 'Location', es: 'Ubicación' },
+  map: { en: 'Map of the last known location', es: 'Mapa de la última ubicación conocida' },
+  viewTrip: { en: 'View the live trip', es: 'Ver el viaje en directo' },
+  acknowledge: { en: "I'm handling this", es: 'Yo me encargo' },
+} satisfies Record<string, Record<Language, string>>;
+
+/**
+ * Send an email, trying each configured transport in order and falling
+ * back to the next one whenever a transport fails. Throws the last
+ * transport's error when every transport failed.
+ */
+export async function sendEmail(email: Email, logger: FastifyBaseLogger): Promise<EmailResult> {
+  return emailTransports.send(email, logger);
+}
+
+/**
+ * Whether email can be sent. It is optional, so it may be turned off.
+ */
+export function isEmailEnabled(logger: FastifyBaseLogger): boolean {
+  return emailTransports.isEnabled(logger);
+}
+
+/**
+ * A trip with its most recent fixes, newest first, for trip emails.
+ */
+export async function loadEmailTrip(app: App, tripId: string): Promise<EmailTrip | undefined> {
+  return app.db.query.trips.findFirst({
+    where: eq(schema.trips.id, tripId),
+    with: {
+      locationUpdates: {
+        orderBy: desc(schema.locationUpdates.timestamp),
+        limit: EMAIL_TRAIL_POINTS,
+      },
+    },
+  });
+}
+
+// OpenStreetMap tile that contains the position
+function getMapTileUrl(latitude: number, longitude: number): string {
+  const scale = 2 ** MAP_TILE_ZOOM;
+  const x = Math.floor(((longitude + 180) / 360) * scale);
+  const latRad = (latitude * Math.PI) / 180;
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale);
+  return `https://tile.openstreetmap.org/${MAP_TILE_ZOOM}/${x}/${y}.png`;
+}
+
+export function buildStaticMapUrl(trip: EmailTrip): string {
+  const latitude = formatDecimal(trip.lastLatitude);
+  const longitude = formatDecimal(trip.lastLongitude);
+
+  if (!STATIC_MAP_URL_TEMPLATE) {
+    return getMapTileUrl(Number(latitude), Number(longitude));
+  }
+
+  const path = [...trip.locationUpdates]
+    .reverse()
+    .map((fix) => `${formatDecimal(fix.latitude)},${formatDecimal(fix.longitude)}`)
+    .join('|');
+
+  return STATIC_MAP_URL_TEMPLATE
+    .replace(/\{latitude\}/g, encodeURIComponent(latitude))
+    .replace(/\{longitude\}/g, encodeURIComponent(longitude))
+    .replace(/\{path\}/g, encodeURIComponent(path));
+}
+
+function getTripDetails(trip: EmailTrip, recipient: MessageRecipient, language: Language): [string, string][] {
+  const time = (date: Date) => formatTime(date, recipient.timezone, language, false);
+  const details: [string, string | null][] = [
+    [EMAIL_LABELS.activity[language], trip.activityType],
+    [EMAIL_LABELS.clothing[language], trip.clothingDescription],
+    [EMAIL_LABELS.vehicle[language], trip.vehicleDescription],
+    [EMAIL_LABELS.started[language], time(trip.startTime)],
+    [EMAIL_LABELS.expectedReturn[language], trip.expectedReturnTime ? time(trip.expectedReturnTime) : null],
+    [
+      EMAIL_LABELS.lastLocation[language],
+      `${formatDecimal(trip.lastLatitude)}, ${formatDecimal(trip.lastLongitude)} (${time(trip.lastLocationUpdate)})`,
+    ],
+  ];
+  return details.filter((detail): detail is [string, string] => !!detail[1]);
+}
+
+function renderButton(url: string, label: string, color: string): string {
+  return `<a href="${escapeHtml(url)}" style="display:inline-block;margin:4px 8px 4px 0;padding:10px 16px;`
+    + `border-radius:6px;background:${color};color:#ffffff;text-decoration:none;font-weight:bold">${escapeHtml(label)}</a>`;
+}
+
+/**
+ * Email version of a notification: the same text contacts get by SMS, plus
+ * a map of the last position, the recent trail, the clothing and vehicle
+ * details and buttons for the live trip page and acknowledging an alert.
+ */
+export function buildTripEmail(
+  trip: EmailTrip,
+  options: {
+    eventType: string;
+    text: string;
+    recipient: MessageRecipient;
+    alert: boolean;
+    shareUrl: string | null;
+    acknowledgeUrl: string | null;
+  }
+): { subject: string; text: string; html: string } {
+  const { recipient } = options;
+  const language = getRecipientLanguage(recipient);
+  const heading = getNotificationTitle(options.eventType, recipient);
+  const subject = `${heading}: ${trip.activityType}`;
+  const details = getTripDetails(trip, recipient, language);
+  const trail = trip.locationUpdates.map((fix) => [
+    formatTime(fix.timestamp, recipient.timezone, language, false),
+    `${formatDecimal(fix.latitude)}, ${formatDecimal(fix.longitude)}`,
+  ]);
+
+  const text = [
+    options.text,
+    '',
+    `${EMAIL_LABELS.tripDetails[language]}:`,
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(trail.length > 0
+      ? ['', `${EMAIL_LABELS.recentTrail[language]}:`, ...trail.map(([time, position]) => `${time}  ${position}`)]
+      : []),
+  ].join('\n');
+
+  const accent = options.alert ? '#c62828' : '#2e7d32';
+  const map = `<img src="${escapeHtml(buildStaticMapUrl(trip))}" width="256" height="256" `
+    + `alt="${escapeHtml(EMAIL_LABELS.map[language])}" style="border:1px solid #ddd;border-radius:6px">`;
+  const cell = 'padding:4px 12px 4px 0;vertical-align:top';
+
+  const html = `<!doctype html>
+<html lang="${language}">
+<body style="margin:0;padding:16px;font-family:Arial,Helvetica,sans-serif;color:#222;background:#f5f5f5">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">
+<div style="padding:16px;background:${accent};color:#ffffff;font-size:20px;font-weight:bold">${escapeHtml(heading)}</div>
+<div style="padding:16px">
+<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(options.text).replace(/\n/g, '<br>')}</p>
+<p style="margin:0 0 16px">${options.shareUrl ? `<a href="${escapeHtml(options.shareUrl)}">${map}</a>` : map}</p>
+<p style="margin:0 0 16px">${[
+    options.shareUrl ? renderButton(options.shareUrl, EMAIL_LABELS.viewTrip[language], '#1565c0') : '',
+    options.acknowledgeUrl ? renderButton(options.acknowledgeUrl, EMAIL_LABELS.acknowledge[language], accent) : '',
+  ].join('')}</p>
+<h2 style="font-size:16px;margin:16px 0 8px">${escapeHtml(EMAIL_LABELS.tripDetails[language])}</h2>
+<table style="border-collapse:collapse;font-size:14px">
+${details.map(([label, value]) => `<tr><th align="left" style="${cell}">${escapeHtml(label)}</th><td style="${cell}">${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+${trail.length > 0 ? `<h2 style="font-size:16px;margin:16px 0 8px">${escapeHtml(EMAIL_LABELS.recentTrail[language])}</h2>
+<table style="border-collapse:collapse;font-size:14px">
+<tr><th align="left" style="${cell}">${escapeHtml(EMAIL_LABELS.time[language])}</th><th align="left" style="${cell}">${escapeHtml(EMAIL_LABELS.location[language])}</th></tr>
+${trail.map(([time, position]) => `<tr><td style="${cell}">${escapeHtml(time)}</td><td style="${cell}">${escapeHtml(position)}</td></tr>`).join('\n')}
+</table>` : ''}
+</div>
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,96 @@
+// Mean Earth radius in meters
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// A position as [longitude, latitude], the GeoJSON axis order
+export type LonLat = [number, number];
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two positions in meters.
+ */
+export function haversineDistance([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Total length of a line in meters.
+ */
+export function lineLength(coordinates: LonLat[]): number {
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    total += haversineDistance(coordinates[i - 1], coordinates[i]);
+  }
+  return total;
+}
+
+/**
+ * Total length in meters of a route made of separate lines.
+ */
+export function routeLength(lines: LonLat[][]): number {
+  return lines.reduce((total, line) => total + lineLength(line), 0);
+}
+
+export function isValidPosition([lon, lat]: LonLat): boolean {
+  return (
+    Number.isFinite(lon) && Number.isFinite(lat) &&
+    lon >= -180 && lon <= 180 && lat >= -90 && lat <= 90
+  );
+}
+
+/**
+ * Distance in kilometers for messages, e.g. "14 km" or "2.5 km".
+ */
+export function formatDistance(meters: number): string {
+  const km = meters / 1000;
+  return `${km >= 10 ? Math.round(km) : Number(km.toFixed(1))} km`;
+}
+
+/**
+ * Shortest distance in meters from a position to a line. Each segment is
+ * projected onto a local flat plane around the position, which is accurate
+ * to well under a meter at the scale of hiking trails.
+ */
+export function distanceToLine(point: LonLat, line: LonLat[]): number {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return haversineDistance(point, line[0]);
+
+  const [lon0, lat0] = point;
+  const metersPerDegreeLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos(toRadians(lat0));
+  const project = ([lon, lat]: LonLat) => [
+    (lon - lon0) * metersPerDegreeLon,
+    (lat - lat0) * metersPerDegreeLat,
+  ];
+
+  let shortest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const [ax, ay] = project(line[i - 1]);
+    const [bx, by] = project(line[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    // Position along the segment closest to the point (the origin), clamped to its ends
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    shortest = Math.min(shortest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+
+  return shortest;
+}
+
+/**
+ * Shortest distance in meters from a position to any of a route's lines. The
+ * gaps between lines are not part of the route.
+ */
+export function distanceToRoute(point: LonLat, lines: LonLat[][]): number {
+  return Math.min(...lines.map((line) => distanceToLine(point, line)));
+}
@@ -0,0 +1,20 @@
+// Public origin of this backend, used to build links sent to emergency contacts
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+export function buildPublicUrl(path: string): string | null {
+  if (!PUBLIC_BASE_URL) return null;
+  return `${PUBLIC_BASE_URL}${path}`;
+}
+
+export function buildAcknowledgeUrl(acknowledgeToken: string): string | null {
+  return buildPublicUrl(`/acknowledge/${acknowledgeToken}`);
+}
+
+export function buildShareUrl(shareToken: string): string | null {
+  return buildPublicUrl(`/share/${shareToken}`);
+}
+
+// Where the SMS provider posts delivery reports for sent messages
+export function buildSmsStatusCallbackUrl(): string | null {
+  return buildPublicUrl('/api/webhooks/sms/status');
+}
@@ -0,0 +1,73 @@
+import * as schema from '../db/schema/schema.js';
+
+/**
+ * Extra readings reported with a GPS fix. Units follow expo-location:
+ * accuracy and altitude in meters, speed in m/s, heading in degrees from true
+ * north. Battery level is a fraction from 0 to 1.
+ */
+export type FixMetadata = {
+  accuracy?: number | null;
+  altitude?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+  batteryLevel?: number | null;
+};
+
+// Request body properties for a fix, alongside latitude and longitude
+export const fixMetadataBodySchema = {
+  accuracy: { type: ['number', 'null'], minimum: 0 },
+  altitude: { type: ['number', 'null'] },
+  speed: { type: ['number', 'null'], minimum: 0 },
+  heading: { type: ['number', 'null'], minimum: 0, maximum: 360 },
+  batteryLevel: { type: ['number', 'null'], minimum: 0, maximum: 1 },
+};
+
+export const lastFixResponseSchema = {
+  lastAccuracy: { type: ['number', 'null'] },
+  lastAltitude: { type: ['number', 'null'] },
+  lastSpeed: { type: ['number', 'null'] },
+  lastHeading: { type: ['number', 'null'] },
+  lastBatteryLevel: { type: ['number', 'null'] },
+};
+
+export function pickFixMetadata(fix: FixMetadata) {
+  return {
+    accuracy: fix.accuracy ?? null,
+    altitude: fix.altitude ?? null,
+    speed: fix.speed ?? null,
+    heading: fix.heading ?? null,
+    batteryLevel: fix.batteryLevel ?? null,
+  };
+}
+
+// Trip columns that mirror the metadata of its most recent fix
+export function toLastFixColumns(fix: FixMetadata) {
+  const metadata = pickFixMetadata(fix);
+  return {
+    lastAccuracy: metadata.accuracy,
+    lastAltitude: metadata.altitude,
+    lastSpeed: metadata.speed,
+    lastHeading: metadata.heading,
+    lastBatteryLevel: metadata.batteryLevel,
+  };
+}
+
+export function getLastFix(trip: typeof schema.trips.$inferSelect): FixMetadata {
+  return {
+    accuracy: trip.lastAccuracy,
+    altitude: trip.lastAltitude,
+    speed: trip.lastSpeed,
+    heading: trip.lastHeading,
+    batteryLevel: trip.lastBatteryLevel,
+  };
+}
+
+export function formatLastFix(trip: typeof schema.trips.$inferSelect) {
+  return {
+    lastAccuracy: trip.lastAccuracy,
+    lastAltitude: trip.lastAltitude,
+    lastSpeed: trip.lastSpeed,
+    lastHeading: trip.lastHeading,
+    lastBatteryLevel: trip.lastBatteryLevel,
+  };
+}
@@ -0,0 +1,100 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { ESCALATING_TRIP_STATUSES, type TripStatus } from './trip-status.js';
+
+// How routine location updates reach emergency contacts:
+// - every: a text for each update
+// - throttle: at most one text every interval
+// - digest: a summary of the updates at each interval, sent by the watchdog
+// - status_change: only when a fix changes the trip status, e.g. a check-in
+//   after a missed check-in
+export const LOCATION_UPDATE_POLICIES = ['every', 'throttle', 'digest', 'status_change'] as const;
+
+export type LocationUpdatePolicy = (typeof LOCATION_UPDATE_POLICIES)[number];
+
+// Interval used by the throttle and digest policies when the trip sets none
+export const DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES =
+  Number(process.env.DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES) || 30;
+
+// Policies that need an interval
+const INTERVAL_POLICIES: LocationUpdatePolicy[] = ['throttle', 'digest'];
+
+type PolicyTrip = Pick<
+  typeof schema.trips.$inferSelect,
+  'id' | 'status' | 'locationUpdatePolicy' | 'locationUpdateIntervalMinutes' | 'lastLocationNotifiedAt'
+>;
+
+export const locationUpdatePolicyBodySchema = {
+  locationUpdatePolicy: { type: 'string', enum: [...LOCATION_UPDATE_POLICIES] },
+  locationUpdateIntervalMinutes: { type: 'integer', minimum: 5 },
+};
+
+export const locationUpdatePolicyResponseSchema = {
+  locationUpdatePolicy: { type: 'string' },
+  locationUpdateIntervalMinutes: { type: ['integer', 'null'] },
+};
+
+export function formatLocationUpdatePolicy(trip: PolicyTrip) {
+  return {
+    locationUpdatePolicy: trip.locationUpdatePolicy,
+    locationUpdateIntervalMinutes: trip.locationUpdateIntervalMinutes,
+  };
+}
+
+/**
+ * Trip columns for a policy choice. The interval only applies to the
+ * throttle and digest policies and falls back to the default for them.
+ */
+export function toLocationUpdatePolicyColumns(policy: LocationUpdatePolicy, intervalMinutes: number | undefined) {
+  return {
+    locationUpdatePolicy: policy,
+    locationUpdateIntervalMinutes: INTERVAL_POLICIES.includes(policy)
+      ? intervalMinutes ?? DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES
+      : null,
+  };
+}
+
+export function getLocationUpdateIntervalMs(trip: PolicyTrip): number {
+  return (trip.locationUpdateIntervalMinutes ?? DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+// While an alert is open, contacts are looking for the user, so every new
+// position goes out at once whatever the policy
+function isAlertActive(status: string): boolean {
+  return status === 'sos' || ESCALATING_TRIP_STATUSES.includes(status as TripStatus);
+}
+
+function isIntervalElapsed(trip: PolicyTrip, now: Date): boolean {
+  return !trip.lastLocationNotifiedAt
+    || now.getTime() - trip.lastLocationNotifiedAt.getTime() >= getLocationUpdateIntervalMs(trip);
+}
+
+/**
+ * Decide whether a new position is texted to contacts now, and if so record
+ * the time. `previousStatus` is the trip status before the fix; a fix that
+ * changes the status always goes out. For throttled trips the time is
+ * claimed against the value read, so concurrent uploads send one text.
+ */
+export async function claimLocationUpdate(
+  app: App,
+  trip: PolicyTrip,
+  previousStatus: string,
+  now: Date
+): Promise<boolean> {
+  const policy = trip.locationUpdatePolicy as LocationUpdatePolicy;
+  const immediate = trip.status !== previousStatus || isAlertActive(trip.status) || policy === 'every';
+
+  if (!immediate && (policy !== 'throttle' || !isIntervalElapsed(trip, now))) return false;
+
+  const unchanged = trip.lastLocationNotifiedAt
+    ? eq(schema.trips.lastLocationNotifiedAt, trip.lastLocationNotifiedAt)
+    : isNull(schema.trips.lastLocationNotifiedAt);
+
+  const claimed = await app.db.update(schema.trips)
+    .set({ lastLocationNotifiedAt: now })
+    .where(and(eq(schema.trips.id, trip.id), immediate ? undefined : unchanged))
+    .returning({ id: schema.trips.id });
+
+  return claimed.length > 0;
+}
@@ -0,0 +1,295 @@
+import { and, eq, lte, ne } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { sendSMS } from './sms.js';
+import { sendEmail } from './email.js';
+import { sendPush } from './push.js';
+import { PushTokenRejectedError } from './push-transports.js';
+import type { TripContact } from './trip-contacts.js';
+import { publishTripEvent } from './trip-events.js';
+
+export type Notification = typeof schema.notifications.$inferSelect;
+
+// How a single message is delivered
+export const NOTIFICATION_CHANNELS = ['sms', 'email', 'push'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// What an emergency contact chooses to receive
+export const CONTACT_CHANNELS = ['sms', 'email', 'both'] as const;
+
+export type ContactChannel = (typeof CONTACT_CHANNELS)[number];
+
+// Sends tried for one message before it is marked failed
+const MAX_NOTIFICATION_ATTEMPTS = Number(process.env.MAX_NOTIFICATION_ATTEMPTS) || 5;
+
+// Wait before the first retry; doubles after every failed attempt
+const NOTIFICATION_RETRY_BASE_SECONDS = Number(process.env.NOTIFICATION_RETRY_BASE_SECONDS) || 30;
+
+// How long a claimed send is held before another run may take it over, in
+// case the process died mid-send. Longer than the slowest transport chain.
+const NOTIFICATION_SEND_LEASE_SECONDS = Number(process.env.NOTIFICATION_SEND_LEASE_SECONDS) || 5 * 60;
+
+function getLeaseExpiry(): Date {
+  return new Date(Date.now() + NOTIFICATION_SEND_LEASE_SECONDS * 1000);
+}
+
+// Final delivery states a provider reports for a sent message
+export const DELIVERY_STATUSES = ['delivered', 'undelivered', 'failed'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export const notificationResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    emergencyContactId: { type: ['string', 'null'], format: 'uuid' },
+    contactName: { type: ['string', 'null'] },
+    channel: { type: 'string' },
+    toNumber: { type: ['string', 'null'] },
+    toEmail: { type: ['string', 'null'] },
+    subject: { type: ['string', 'null'] },
+    eventType: { type: 'string' },
+    body: { type: 'string' },
+    status: { type: 'string' },
+    transport: { type: ['string', 'null'] },
+    providerMessageId: { type: ['string', 'null'] },
+    attempts: { type: 'integer' },
+    lastError: { type: ['string', 'null'] },
+    nextAttemptAt: { type: ['string', 'null'], format: 'date-time' },
+    sentAt: { type: ['string', 'null'], format: 'date-time' },
+    deliveredAt: { type: ['string', 'null'], format: 'date-time' },
+    errorCode: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+export const notificationsResponseSchema = {
+  type: 'array',
+  items: notificationResponseSchema,
+};
+
+export function formatNotification(
+  notification: Notification,
+  contact?: { name: string } | null
+) {
+  return {
+    ...notification,
+    contactName: contact?.name ?? null,
+  };
+}
+
+/**
+ * Notifications for a set of trip contacts, each with the contact's name.
+ */
+export function formatTripNotifications(notifications: Notification[], contacts: TripContact[]) {
+  return notifications.map((notification) => formatNotification(
+    notification,
+    contacts.find((contact) => contact.emergencyContact.id === notification.emergencyContactId)?.emergencyContact
+  ));
+}
+
+// Hand the message to the transports of its channel
+function deliverNotification(app: App, notification: Notification) {
+  if (notification.channel === 'email') {
+    return sendEmail({
+      to: notification.toEmail,
+      subject: notification.subject ?? '',
+      text: notification.body,
+      html: notification.html ?? undefined,
+    }, app.logger);
+  }
+  if (notification.channel === 'push') {
+    return sendPush(app, {
+      to: notification.toPushToken,
+      title: notification.subject ?? '',
+      body: notification.body,
+      link: notification.link,
+      eventType: notification.eventType,
+    });
+  }
+  return sendSMS(notification.toNumber, notification.body, app.logger);
+}
+
+function getRetryDelayMs(attempts: number): number {
+  return NOTIFICATION_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+}
+
+/**
+ * Try to send a queued notification once. On failure it is either scheduled
+ * for another attempt with exponential backoff or, after the last attempt,
+ * marked failed.
+ */
+async function attemptNotification(app: App, notification: Notification): Promise<Notification> {
+  const attempts = notification.attempts + 1;
+  const now = new Date();
+
+  try {
+    const result = await deliverNotification(app, notification);
+
+    const [sent] = await app.db.update(schema.notifications)
+      .set({
+        status: 'sent',
+        transport: result.transport,
+        providerMessageId: result.messageId,
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: now,
+        updatedAt: now,
+      })
+      .where(eq(schema.notifications.id, notification.id))
+      .returning();
+    return sent;
+  } catch (error) {
+    const giveUp = attempts >= MAX_NOTIFICATION_ATTEMPTS || error instanceof PushTokenRejectedError;
+
+    app.logger.warn(
+      { notificationId: notification.id, tripId: notification.tripId, attempts, giveUp },
+      giveUp ? 'Notification failed, giving up' : 'Notification failed, will retry'
+    );
+
+    const [failed] = await app.db.update(schema.notifications)
+      .set({
+        status: giveUp ? 'failed' : 'queued',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: giveUp ? null : new Date(now.getTime() + getRetryDelayMs(attempts)),
+        updatedAt: now,
+      })
+      .where(eq(schema.notifications.id, notification.id))
+      .returning();
+    return failed;
+  }
+}
+
+type NewNotification = {
+  tripId: string;
+  emergencyContactId: string | null;
+  channel?: NotificationChannel;
+  toNumber?: string;
+  toEmail?: string;
+  toPushToken?: string;
+  subject?: string;
+  html?: string;
+  link?: string | null;
+  eventType: string;
+  body: string;
+};
+
+/**
+ * Record a message to a trip contact and make the first attempt to send it.
+ */
+export async function sendNotification(app: App, notification: NewNotification): Promise<Notification> {
+  // Leased from the start, so the watchdog retries it if this send never finishes
+  const [queued] = await app.db.insert(schema.notifications)
+    .values({ ...notification, nextAttemptAt: getLeaseExpiry() })
+    .returning();
+
+  return attemptNotification(app, queued);
+}
+
+/**
+ * Record a message to a trip contact for sending in the background, so the
+ * caller does not wait on the provider. Call drainNotificationQueue once the
+ * messages are queued.
+ */
+export async function queueNotification(app: App, notification: NewNotification): Promise<Notification> {
+  const [queued] = await app.db.insert(schema.notifications)
+    .values({ ...notification, nextAttemptAt: new Date() })
+    .returning();
+
+  return queued;
+}
+
+/**
+ * Send queued notifications now without waiting for the result. Failures
+ * are retried by the trip watchdog like any other notification.
+ */
+export function drainNotificationQueue(app: App) {
+  sendQueuedNotifications(app).catch((error) => {
+    app.logger.error({ err: error }, 'Notification queue run failed');
+  });
+}
+
+/**
+ * Send queued notifications that are due: newly queued ones and retries
+ * whose backoff has passed.
+ */
+export async function sendQueuedNotifications(app: App) {
+  const due = await app.db.query.notifications.findMany({
+    where: and(
+      eq(schema.notifications.status, 'queued'),
+      lte(schema.notifications.nextAttemptAt, new Date())
+    ),
+  });
+
+  for (const notification of due) {
+    // Claim the send so a concurrent run cannot send it twice. The claim is a
+    // lease: should this run die before recording the outcome, the message
+    // comes due again once it expires.
+    const claimed = await app.db.update(schema.notifications)
+      .set({ nextAttemptAt: getLeaseExpiry() })
+      .where(and(
+        eq(schema.notifications.id, notification.id),
+        eq(schema.notifications.attempts, notification.attempts),
+        eq(schema.notifications.status, 'queued'),
+        eq(schema.notifications.nextAttemptAt, notification.nextAttemptAt)
+      ))
+      .returning();
+
+    if (claimed.length === 0) continue;
+
+    app.logger.info(
+      { notificationId: notification.id, tripId: notification.tripId, attempt: notification.attempts + 1 },
+      'Sending queued notification'
+    );
+
+    await attemptNotification(app, claimed[0]);
+  }
+}
+
+/**
+ * Record a provider's delivery report for a message it accepted. Reports for
+ * unknown messages are ignored, and a delivered message is never moved back,
+ * since reports can arrive out of order. Returns the updated notification.
+ */
+export async function applyDeliveryReport(
+  app: App,
+  report: { transport: string; messageId: string; status: DeliveryStatus; errorCode: string | null }
+): Promise<Notification | null> {
+  const now = new Date();
+
+  const [updated] = await app.db.update(schema.notifications)
+    .set({
+      status: report.status,
+      errorCode: report.errorCode,
+      deliveredAt: report.status === 'delivered' ? now : null,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(schema.notifications.transport, report.transport),
+      eq(schema.notifications.providerMessageId, report.messageId),
+      ne(schema.notifications.status, 'delivered')
+    ))
+    .returning();
+
+  if (!updated) return null;
+
+  app.logger.info(
+    { notificationId: updated.id, tripId: updated.tripId, status: updated.status, errorCode: updated.errorCode },
+    'Notification delivery report received'
+  );
+
+  publishTripEvent({
+    type: 'notification',
+    tripId: updated.tripId,
+    notificationId: updated.id,
+    contactId: updated.emergencyContactId,
+    status: updated.status,
+    errorCode: updated.errorCode,
+    timestamp: now,
+  });
+
+  return updated;
+}
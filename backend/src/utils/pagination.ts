@@ -0,0 +1,31 @@
+// Position of the last item on a page, ordered by time then id
+export type Cursor = {
+  time: Date;
+  id: string;
+};
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.time.toISOString(), cursor.id])).toString('base64url');
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a cursor from a query string. Returns null for anything malformed,
+ * including a time or id that encodeCursor would not have produced.
+ */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(cursor) || cursor.length !== 2) return null;
+
+    const [time, id] = cursor;
+    if (typeof time !== 'string' || typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    const date = new Date(time);
+    if (Number.isNaN(date.getTime()) || date.toISOString() !== time) return null;
+    return { time: date, id };
+  } catch {
+    return null;
+  }
+}
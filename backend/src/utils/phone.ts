@@ -0,0 +1,14 @@
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+// Phone numbers are stored as the user typed them, so they are compared on
+// their last digits, which ignores formatting and a missing country code
+const PHONE_MATCH_DIGITS = 10;
+
+export function getPhoneMatchDigits(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+}
+
+// SQL condition: the phone number in the column ends with the given digits
+export function phoneNumberMatches(column: AnyColumn, digits: string): SQL {
+  return sql`right(regexp_replace(${column}, '[^0-9]', '', 'g'), ${PHONE_MATCH_DIGITS}) = ${digits}`;
+}
@@ -0,0 +1,30 @@
+import * as schema from '../db/schema/schema.js';
+import { formatDistance } from './geo.js';
+
+type PlannedRoute = typeof schema.plannedRoutes.$inferSelect;
+
+export const plannedRouteSummarySchema = {
+  type: ['object', 'null'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    distanceMeters: { type: 'number' },
+  },
+};
+
+export function formatPlannedRouteSummary(route: PlannedRoute | null) {
+  if (!route) return null;
+  return {
+    id: route.id,
+    name: route.name,
+    distanceMeters: route.distanceMeters,
+  };
+}
+
+/**
+ * Short description for messages, e.g. "Loop Trail, 14 km".
+ */
+export function describePlannedRoute(route: PlannedRoute | null): string | null {
+  if (!route) return null;
+  return `${route.name}, ${formatDistance(route.distanceMeters)}`;
+}
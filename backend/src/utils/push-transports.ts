@@ -0,0 +1,92 @@
+import { type Transport, type TransportResult, createTransportChain } from './transport-chain.js';
+
+export type PushResult = TransportResult;
+
+export type PushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  // Opened when the notification is tapped
+  link: string | null;
+  eventType: string;
+};
+
+export type PushTransport = Transport<PushMessage>;
+
+// The provider no longer knows the device, e.g. the app was uninstalled.
+// Sending to the token again cannot succeed.
+export class PushTokenRejectedError extends Error {}
+
+const PUSH_OUTBOX_FILE = process.env.PUSH_OUTBOX_FILE || 'push-outbox.jsonl';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo push service, for tokens from expo-notifications
+function createExpoTransport(accessToken: string | undefined): PushTransport {
+  return {
+    name: 'expo',
+    async send(message) {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify({
+          to: message.to,
+          title: message.title,
+          body: message.body,
+          data: { url: message.link, eventType: message.eventType },
+          sound: 'default',
+          priority: 'high',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Expo push request failed with HTTP ${response.status}`);
+      }
+
+      const { data } = await response.json() as {
+        data: { status: 'ok' | 'error'; id?: string; message?: string; details?: { error?: string } };
+      };
+      if (data.status === 'error') {
+        const reason = data.message ?? data.details?.error ?? 'unknown error';
+        if (data.details?.error === 'DeviceNotRegistered') {
+          throw new PushTokenRejectedError(`Expo rejected the push token: ${reason}`);
+        }
+        throw new Error(`Expo rejected the push notification: ${reason}`);
+      }
+
+      return { transport: 'expo', messageId: data.id ?? null };
+    },
+  };
+}
+
+function createTransport(name: string): PushTransport {
+  switch (name) {
+    case 'expo':
+      return createExpoTransport(process.env.EXPO_ACCESS_TOKEN);
+    default:
+      throw new Error(`Unknown push transport "${name}"`);
+  }
+}
+
+/**
+ * The failover chain of push transports. A token the provider rejects is
+ * not tried on the other transports. Push is optional, as contacts also get
+ * every message by SMS or email.
+ */
+export const pushTransports = createTransportChain<PushMessage>({
+  channel: 'Push notification',
+  // Comma-separated transports to try in order, e.g. "expo,file"
+  envName: 'PUSH_TRANSPORTS',
+  // Without explicit configuration, send through Expo when an access token is set
+  defaultNames: () => (process.env.EXPO_ACCESS_TOKEN ? ['expo'] : []),
+  createTransport,
+  outboxFile: PUSH_OUTBOX_FILE,
+  describe: (message) => ({ eventType: message.eventType }),
+  toRecord: (message) => ({ ...message }),
+  isFinal: (error) => error instanceof PushTokenRejectedError,
+  optional: true,
+});
@@ -0,0 +1,254 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto';
+import { and, asc, eq, gt, isNotNull, ne, or, sql } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { user } from '../db/schema/auth-schema.js';
+import type { App } from '../index.js';
+import { type PushMessage, type PushResult, PushTokenRejectedError, pushTransports } from './push-transports.js';
+import { getPhoneMatchDigits, phoneNumberMatches } from './phone.js';
+import { sendSMS } from './sms.js';
+
+// Events that also reach contacts who use the app as push notifications
+export const PUSH_EVENT_TYPES = ['trip_started', 'sos', 'overdue'];
+
+export const PUSH_PLATFORMS = ['ios', 'android', 'web'] as const;
+
+// Minutes a code texted to confirm a device's phone number stays valid
+const PHONE_CODE_MINUTES = Number(process.env.PHONE_CODE_MINUTES) || 10;
+
+// Wait before another code is texted to the same number
+const PHONE_CODE_RESEND_SECONDS = Number(process.env.PHONE_CODE_RESEND_SECONDS) || 60;
+
+// Codes texted to one number, and sent by one user, within the window
+const MAX_PHONE_CODES_PER_NUMBER = Number(process.env.MAX_PHONE_CODES_PER_NUMBER) || 5;
+const MAX_PHONE_CODES_PER_USER = Number(process.env.MAX_PHONE_CODES_PER_USER) || 10;
+const PHONE_CODE_WINDOW_HOURS = Number(process.env.PHONE_CODE_WINDOW_HOURS) || 24;
+
+// Wrong codes for a number accepted in a row before codes for it are refused
+const MAX_PHONE_CODE_FAILURES = Number(process.env.MAX_PHONE_CODE_FAILURES) || 5;
+
+// How long codes for a number are refused after too many wrong ones
+export const PHONE_CODE_LOCKOUT_MINUTES = Number(process.env.PHONE_CODE_LOCKOUT_MINUTES) || 60;
+
+type PushDevice = typeof schema.pushDevices.$inferSelect;
+
+/**
+ * Send a push notification, trying each configured transport in order.
+ * A token the provider rejects is unregistered and not tried elsewhere.
+ * Throws the last transport's error when every transport failed.
+ */
+export async function sendPush(app: App, message: PushMessage): Promise<PushResult> {
+  try {
+    return await pushTransports.send(message, app.logger);
+  } catch (error) {
+    if (error instanceof PushTokenRejectedError) {
+      app.logger.warn({ eventType: message.eventType }, 'Push token rejected, removing the device');
+      await app.db.delete(schema.pushDevices).where(eq(schema.pushDevices.token, message.to));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether push notifications can be sent. They are optional, so they may be
+ * turned off.
+ */
+export function isPushEnabled(app: App): boolean {
+  return pushTransports.isEnabled(app.logger);
+}
+
+function hashPhoneCode(deviceId: string, code: string): string {
+  return createHash('sha256').update(`${deviceId}:${code}`).digest('hex');
+}
+
+// The number's codes are refused after too many wrong ones
+async function findPhoneCodeLock(app: App, digits: string): Promise<Date | null> {
+  const attempts = await app.db.query.phoneCodeAttempts.findFirst({
+    where: eq(schema.phoneCodeAttempts.phoneDigits, digits),
+  });
+  return attempts?.lockedUntil && attempts.lockedUntil > new Date() ? attempts.lockedUntil : null;
+}
+
+/**
+ * When the next code may be texted for this user and number, or null when
+ * one may be sent now. Codes are limited per number and per user, however
+ * often the device is registered again.
+ */
+async function getPhoneCodeWait(app: App, userId: string, digits: string): Promise<Date | null> {
+  const windowMs = PHONE_CODE_WINDOW_HOURS * 60 * 60 * 1000;
+  const sends = await app.db.query.phoneCodeSends.findMany({
+    where: and(
+      gt(schema.phoneCodeSends.sentAt, new Date(Date.now() - windowMs)),
+      or(eq(schema.phoneCodeSends.userId, userId), eq(schema.phoneCodeSends.phoneDigits, digits))
+    ),
+    orderBy: [asc(schema.phoneCodeSends.sentAt)],
+  });
+
+  const toNumber = sends.filter((send) => send.phoneDigits === digits);
+  const byUser = sends.filter((send) => send.userId === userId);
+  const waits = [await findPhoneCodeLock(app, digits)];
+
+  if (toNumber.length > 0) {
+    waits.push(new Date(toNumber[toNumber.length - 1].sentAt.getTime() + PHONE_CODE_RESEND_SECONDS * 1000));
+  }
+  // Until the oldest send that counts towards a full limit leaves the window
+  if (toNumber.length >= MAX_PHONE_CODES_PER_NUMBER) {
+    waits.push(new Date(toNumber[toNumber.length - MAX_PHONE_CODES_PER_NUMBER].sentAt.getTime() + windowMs));
+  }
+  if (byUser.length >= MAX_PHONE_CODES_PER_USER) {
+    waits.push(new Date(byUser[byUser.length - MAX_PHONE_CODES_PER_USER].sentAt.getTime() + windowMs));
+  }
+
+  const until = Math.max(0, ...waits.map((wait) => wait?.getTime() ?? 0));
+  return until > Date.now() ? new Date(until) : null;
+}
+
+/**
+ * Text a code to the device's phone number so the user can show the phone
+ * is theirs. Nothing is sent while an earlier code is still valid. Sending is
+ * held back by the limits on codes per number and per user; `waitUntil` then
+ * says when a code can be sent. When the text cannot be sent the device is
+ * returned unchanged, so registering it again tries once more.
+ */
+export async function sendPhoneVerificationCode(
+  app: App,
+  device: PushDevice
+): Promise<{ device: PushDevice; waitUntil: Date | null }> {
+  if (!device.phoneNumber || device.phoneVerifiedAt) return { device, waitUntil: null };
+  if (device.phoneCodeHash && device.phoneCodeExpiresAt && device.phoneCodeExpiresAt > new Date()) {
+    return { device, waitUntil: null };
+  }
+
+  const digits = getPhoneMatchDigits(device.phoneNumber);
+  if (!digits) return { device, waitUntil: null };
+
+  const waitUntil = await getPhoneCodeWait(app, device.userId, digits);
+  if (waitUntil) {
+    app.logger.warn({ userId: device.userId, pushDeviceId: device.id, waitUntil }, 'Phone verification code held back');
+    return { device, waitUntil };
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  try {
+    await sendSMS(device.phoneNumber, `Your Trip Safety code is ${code}. It expires in ${PHONE_CODE_MINUTES} minutes.`, app.logger);
+  } catch (error) {
+    app.logger.warn({ err: error, userId: device.userId, pushDeviceId: device.id }, 'Failed to text phone verification code');
+    return { device, waitUntil: null };
+  }
+
+  await app.db.insert(schema.phoneCodeSends).values({ userId: device.userId, phoneDigits: digits });
+
+  const [updated] = await app.db.update(schema.pushDevices)
+    .set({
+      phoneCodeHash: hashPhoneCode(device.id, code),
+      phoneCodeExpiresAt: new Date(Date.now() + PHONE_CODE_MINUTES * 60 * 1000),
+    })
+    .where(eq(schema.pushDevices.id, device.id))
+    .returning();
+  return { device: updated, waitUntil: null };
+}
+
+/**
+ * Check a code against the one texted to the device. Wrong codes are
+ * counted per phone number, before the code is compared, so neither parallel
+ * guesses nor new codes get past the limit; once it is reached the code is
+ * dropped and codes for the number are refused for a while.
+ */
+export async function checkPhoneVerificationCode(
+  app: App,
+  device: PushDevice,
+  code: string
+): Promise<'verified' | 'rejected' | 'expired' | 'locked'> {
+  if (
+    !device.phoneNumber || !device.phoneCodeHash ||
+    !device.phoneCodeExpiresAt || device.phoneCodeExpiresAt <= new Date()
+  ) {
+    return 'expired';
+  }
+
+  const phoneDigits = getPhoneMatchDigits(device.phoneNumber);
+  const { failedAttempts, lockedUntil } = schema.phoneCodeAttempts;
+
+  // Attempts made while locked are not counted
+  const [attempt] = await app.db.insert(schema.phoneCodeAttempts)
+    .values({ phoneDigits, failedAttempts: 1 })
+    .onConflictDoUpdate({
+      target: schema.phoneCodeAttempts.phoneDigits,
+      set: {
+        failedAttempts: sql`case when ${lockedUntil} > now() then ${failedAttempts} else ${failedAttempts} + 1 end`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  if (attempt.lockedUntil && attempt.lockedUntil > new Date()) {
+    return 'locked';
+  }
+
+  if (attempt.failedAttempts > MAX_PHONE_CODE_FAILURES) {
+    await app.db.update(schema.phoneCodeAttempts)
+      .set({
+        failedAttempts: 0,
+        lockedUntil: new Date(Date.now() + PHONE_CODE_LOCKOUT_MINUTES * 60 * 1000),
+      })
+      .where(eq(schema.phoneCodeAttempts.phoneDigits, phoneDigits));
+    await app.db.update(schema.pushDevices)
+      .set({ phoneCodeHash: null, phoneCodeExpiresAt: null })
+      .where(eq(schema.pushDevices.id, device.id));
+
+    app.logger.warn({ userId: device.userId, pushDeviceId: device.id }, 'Too many wrong phone codes, locking the number');
+    return 'locked';
+  }
+
+  const expected = Buffer.from(device.phoneCodeHash, 'hex');
+  const actual = Buffer.from(hashPhoneCode(device.id, code), 'hex');
+  if (!timingSafeEqual(expected, actual)) return 'rejected';
+
+  // Only the code that was checked, in case a new one was sent in the meantime
+  const [verified] = await app.db.update(schema.pushDevices)
+    .set({ phoneVerifiedAt: new Date(), phoneCodeHash: null, phoneCodeExpiresAt: null })
+    .where(and(
+      eq(schema.pushDevices.id, device.id),
+      eq(schema.pushDevices.phoneCodeHash, device.phoneCodeHash)
+    ))
+    .returning();
+  if (!verified) return 'expired';
+
+  await app.db.delete(schema.phoneCodeAttempts).where(eq(schema.phoneCodeAttempts.phoneDigits, phoneDigits));
+  return 'verified';
+}
+
+/**
+ * Push tokens of the devices of app users who are this emergency contact:
+ * users who verified the contact's email as their account email, and
+ * devices whose phone number was confirmed to be the contact's with a
+ * texted code. Anything the user could simply type in is not trusted, since
+ * a match receives the trip's live location. The trip owner's own devices
+ * are left out.
+ */
+export async function findContactPushTokens(
+  app: App,
+  contact: typeof schema.emergencyContacts.$inferSelect
+): Promise<string[]> {
+  const digits = getPhoneMatchDigits(contact.phoneNumber);
+  const matches = [
+    contact.email
+      ? and(eq(user.emailVerified, true), sql`lower(${user.email}) = lower(${contact.email})`)
+      : undefined,
+    digits
+      ? and(isNotNull(schema.pushDevices.phoneVerifiedAt), phoneNumberMatches(schema.pushDevices.phoneNumber, digits))
+      : undefined,
+  ].filter(Boolean);
+
+  if (matches.length === 0) return [];
+
+  const devices = await app.db
+    .select({ token: schema.pushDevices.token })
+    .from(schema.pushDevices)
+    .innerJoin(user, eq(user.id, schema.pushDevices.userId))
+    .where(and(
+      ne(schema.pushDevices.userId, contact.userId),
+      or(...matches)
+    ));
+
+  return devices.map((device) => device.token);
+}
@@ -0,0 +1,110 @@
+import { and, eq, sql } from 'drizzle-orm';
+import type { FastifyReply } from 'fastify';
+import { verifyPassword } from 'better-auth/crypto';
+import * as schema from '../db/schema/schema.js';
+import * as authSchema from '../db/schema/auth-schema.js';
+import type { App } from '../index.js';
+
+export type ReauthCredentials = {
+  pin?: string;
+  password?: string;
+};
+
+// Request body properties for actions that need the user to prove it is them
+export const reauthBodySchema = {
+  pin: { type: 'string', pattern: '^[0-9]{4,8}$' },
+  password: { type: 'string', minLength: 1 },
+};
+
+// Wrong PINs or passwords accepted in a row before re-authentication locks
+const MAX_REAUTH_FAILURES = Number(process.env.MAX_REAUTH_FAILURES) || 5;
+
+// How long re-authentication stays locked after too many wrong attempts
+const REAUTH_LOCKOUT_MINUTES = Number(process.env.REAUTH_LOCKOUT_MINUTES) || 15;
+
+export type ReauthResult = 'verified' | 'rejected' | 'locked';
+
+async function checkCredentials(app: App, userId: string, credentials: ReauthCredentials): Promise<boolean> {
+  if (credentials.pin) {
+    const safetyPin = await app.db.query.safetyPins.findFirst({
+      where: eq(schema.safetyPins.userId, userId),
+    });
+
+    if (safetyPin && await verifyPassword({ hash: safetyPin.pinHash, password: credentials.pin })) {
+      return true;
+    }
+  }
+
+  if (credentials.password) {
+    const account = await app.db.query.account.findFirst({
+      where: and(
+        eq(authSchema.account.userId, userId),
+        eq(authSchema.account.providerId, 'credential')
+      ),
+    });
+
+    if (account?.password && await verifyPassword({ hash: account.password, password: credentials.password })) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check a safety PIN or the account password for a signed-in user. Used for
+ * actions a stolen or pocketed phone should not be able to take, such as
+ * calling off an SOS. After too many wrong attempts in a row every attempt
+ * is refused for a while, so a short PIN cannot be guessed.
+ */
+export async function verifyReauth(app: App, userId: string, credentials: ReauthCredentials): Promise<ReauthResult> {
+  const { failedAttempts, lockedUntil } = schema.reauthAttempts;
+
+  // Count the attempt before checking it, so parallel guesses cannot get
+  // past the limit. Attempts made while locked are not counted.
+  const [attempt] = await app.db.insert(schema.reauthAttempts)
+    .values({ userId, failedAttempts: 1 })
+    .onConflictDoUpdate({
+      target: schema.reauthAttempts.userId,
+      set: {
+        failedAttempts: sql`case when ${lockedUntil} > now() then ${failedAttempts} else ${failedAttempts} + 1 end`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  if (attempt.lockedUntil && attempt.lockedUntil > new Date()) {
+    return 'locked';
+  }
+
+  if (attempt.failedAttempts > MAX_REAUTH_FAILURES) {
+    await app.db.update(schema.reauthAttempts)
+      .set({
+        failedAttempts: 0,
+        lockedUntil: new Date(Date.now() + REAUTH_LOCKOUT_MINUTES * 60 * 1000),
+      })
+      .where(eq(schema.reauthAttempts.userId, userId));
+
+    app.logger.warn({ userId }, 'Too many failed re-authentication attempts, locking re-authentication');
+    return 'locked';
+  }
+
+  if (!await checkCredentials(app, userId, credentials)) {
+    return 'rejected';
+  }
+
+  await app.db.delete(schema.reauthAttempts).where(eq(schema.reauthAttempts.userId, userId));
+  return 'verified';
+}
+
+/**
+ * Answer a request whose PIN or password was not accepted.
+ */
+export function rejectReauth(reply: FastifyReply, result: Exclude<ReauthResult, 'verified'>) {
+  if (result === 'locked') {
+    return reply.status(429).send({
+      error: `Too many wrong attempts. Try again in ${REAUTH_LOCKOUT_MINUTES} minutes`,
+    });
+  }
+  return reply.status(403).send({ error: 'Incorrect PIN or password' });
+}
@@ -0,0 +1,49 @@
+import { type LonLat, distanceToRoute } from './geo.js';
+
+// How far from the planned route a fix may be before it counts as off-route
+export const OFF_ROUTE_DISTANCE_METERS = Number(process.env.OFF_ROUTE_DISTANCE_METERS) || 250;
+
+// How long a trip must stay off-route before it is flagged as possibly lost
+export const OFF_ROUTE_MINUTES = Number(process.env.OFF_ROUTE_MINUTES) || 15;
+
+export type RouteFix = {
+  latitude: string;
+  longitude: string;
+  timestamp: Date;
+};
+
+export type RouteDeviation = {
+  // Start of the current off-route stretch, or null when back on the route
+  offRouteSince: Date | null;
+  distanceMeters: number;
+  possiblyLost: boolean;
+};
+
+/**
+ * Follow new fixes, oldest first, against a planned route. The off-route
+ * stretch carries over from `offRouteSince` and ends at the first fix that is
+ * back within range of the route.
+ */
+export function trackRouteDeviation(
+  route: LonLat[][],
+  offRouteSince: Date | null,
+  fixes: RouteFix[]
+): RouteDeviation {
+  let distanceMeters = 0;
+
+  for (const fix of fixes) {
+    distanceMeters = distanceToRoute([Number(fix.longitude), Number(fix.latitude)], route);
+    if (distanceMeters > OFF_ROUTE_DISTANCE_METERS) {
+      offRouteSince = offRouteSince ?? fix.timestamp;
+    } else {
+      offRouteSince = null;
+    }
+  }
+
+  const last = fixes[fixes.length - 1];
+  const possiblyLost =
+    offRouteSince !== null &&
+    last.timestamp.getTime() - offRouteSince.getTime() >= OFF_ROUTE_MINUTES * 60 * 1000;
+
+  return { offRouteSince, distanceMeters, possiblyLost };
+}
@@ -0,0 +1,192 @@
+import { type LonLat, isValidPosition } from './geo.js';
+
+export type RouteFormat = 'gpx' | 'geojson';
+
+export type ParsedRoute = {
+  name: string | null;
+  // Each part of the route as its own line, like MultiLineString coordinates
+  coordinates: LonLat[][];
+};
+
+export class RouteParseError extends Error {}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readAttribute(tag: string, name: string): number {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? Number(match[1]) : NaN;
+}
+
+function readGpxPoints(xml: string, element: string): LonLat[] {
+  const points: LonLat[] = [];
+  for (const match of xml.matchAll(new RegExp(`<${element}\\b[^>]*>`, 'g'))) {
+    points.push([readAttribute(match[0], 'lon'), readAttribute(match[0], 'lat')]);
+  }
+  return points;
+}
+
+// Points of each <section> as a separate line, leaving out sections without any
+function readGpxLines(xml: string, section: string, element: string): LonLat[][] {
+  return [...xml.matchAll(new RegExp(`<${section}\\b[\\s\\S]*?</${section}>`, 'g'))]
+    .map((match) => readGpxPoints(match[0], element))
+    .filter((line) => line.length > 0);
+}
+
+// The <name> directly inside the first <element>, looked for before <stop>
+function readGpxName(xml: string, element: string, stop: string): string | null {
+  const start = xml.search(new RegExp(`<${element}\\b`));
+  if (start === -1) return null;
+
+  const end = xml.indexOf(`<${stop}`, start);
+  const section = xml.slice(start, end === -1 ? undefined : end);
+  const match = section.match(/<name>([\s\S]*?)<\/name>/);
+  return match ? decodeXmlText(match[1]) || null : null;
+}
+
+/**
+ * Route lines from a GPX file: a line per track segment, or per route when
+ * the file has no track. The name comes from the track, route or metadata.
+ */
+export function parseGpxRoute(xml: string): ParsedRoute {
+  if (!/<gpx\b/.test(xml)) {
+    throw new RouteParseError('File is not a GPX document');
+  }
+
+  let coordinates = readGpxLines(xml, 'trkseg', 'trkpt');
+  if (coordinates.length === 0) {
+    coordinates = readGpxLines(xml, 'rte', 'rtept');
+  }
+
+  return {
+    name:
+      readGpxName(xml, 'trk', 'trkseg') ??
+      readGpxName(xml, 'rte', 'rtept') ??
+      readGpxName(xml, 'metadata', '/metadata'),
+    coordinates,
+  };
+}
+
+type GeoJsonObject = Record<string, unknown>;
+
+function isGeoJsonObject(value: unknown): value is GeoJsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readPositions(coordinates: unknown): LonLat[] {
+  if (!Array.isArray(coordinates)) {
+    throw new RouteParseError('Line coordinates must be an array of positions');
+  }
+
+  return coordinates.map((position: unknown) => {
+    if (!Array.isArray(position) || position.length < 2) {
+      throw new RouteParseError('Positions must be [longitude, latitude] arrays');
+    }
+    return [Number(position[0]), Number(position[1])] as LonLat;
+  });
+}
+
+function linesFromGeometry(geometry: unknown): LonLat[][] {
+  // Features without a location have a null geometry
+  if (geometry === null || geometry === undefined) return [];
+  if (!isGeoJsonObject(geometry)) {
+    throw new RouteParseError('GeoJSON geometry must be an object');
+  }
+
+  switch (geometry.type) {
+    case 'LineString':
+      return [readPositions(geometry.coordinates)];
+    case 'MultiLineString':
+      if (!Array.isArray(geometry.coordinates)) {
+        throw new RouteParseError('MultiLineString coordinates must be an array of lines');
+      }
+      return geometry.coordinates.map(readPositions);
+    case 'GeometryCollection':
+      if (!Array.isArray(geometry.geometries)) {
+        throw new RouteParseError('GeometryCollection must have a geometries array');
+      }
+      return geometry.geometries.flatMap(linesFromGeometry);
+    default:
+      return [];
+  }
+}
+
+function readFeatures(data: unknown): GeoJsonObject[] {
+  if (!isGeoJsonObject(data)) {
+    throw new RouteParseError('File is not a GeoJSON object');
+  }
+
+  if (data.type === 'Feature') return [data];
+  if (data.type !== 'FeatureCollection') return [{ geometry: data }];
+
+  if (!Array.isArray(data.features)) {
+    throw new RouteParseError('FeatureCollection must have a features array');
+  }
+  return data.features.map((feature: unknown) => {
+    if (!isGeoJsonObject(feature)) {
+      throw new RouteParseError('FeatureCollection features must be objects');
+    }
+    return feature;
+  });
+}
+
+/**
+ * Route lines from GeoJSON: every LineString, and each part of every
+ * MultiLineString, in a geometry, Feature or FeatureCollection, in order.
+ */
+export function parseGeoJsonRoute(text: string): ParsedRoute {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RouteParseError('File is not valid JSON');
+  }
+
+  const features = readFeatures(data).map((feature) => ({
+    feature,
+    lines: linesFromGeometry(feature.geometry).filter((line) => line.length > 0),
+  }));
+  const properties = features.find(({ lines }) => lines.length > 0)?.feature.properties;
+
+  return {
+    name: isGeoJsonObject(properties) && typeof properties.name === 'string' ? properties.name : null,
+    coordinates: features.flatMap(({ lines }) => lines),
+  };
+}
+
+export function detectRouteFormat(filename: string, content: string): RouteFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = content.trimStart();
+  if (start.startsWith('<')) return 'gpx';
+  if (start.startsWith('{')) return 'geojson';
+  return null;
+}
+
+/**
+ * Parse an uploaded route file, requiring at least two valid positions.
+ */
+export function parseRouteFile(format: RouteFormat, content: string): ParsedRoute {
+  const route = format === 'gpx' ? parseGpxRoute(content) : parseGeoJsonRoute(content);
+
+  const positions = route.coordinates.flat();
+  if (!positions.every(isValidPosition)) {
+    throw new RouteParseError('Route contains invalid coordinates');
+  }
+
+  if (positions.length < 2) {
+    throw new RouteParseError('Route must contain at least two points');
+  }
+
+  return route;
+}
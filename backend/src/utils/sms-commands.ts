@@ -0,0 +1,156 @@
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import * as authSchema from '../db/schema/auth-schema.js';
+import type { App } from '../index.js';
+import {
+  buildWhereReply,
+  buildTripStatusReply,
+  buildAcknowledgedReply,
+  buildSmsCommandHelp,
+  buildWhichTripReply,
+  buildUnknownSenderReply,
+  formatDecimal,
+} from './sms.js';
+import { getLastFix } from './location-fix.js';
+import { ESCALATING_TRIP_STATUSES, type TripStatus } from './trip-status.js';
+import { acknowledgeAlert } from './trip-contacts.js';
+import { type SmsMessage, loadMessageStyle, renderSmsMessage, DEFAULT_LANGUAGE, DEFAULT_TIMEZONE } from './sms-templates.js';
+import { getPhoneMatchDigits, phoneNumberMatches } from './phone.js';
+
+export const SMS_COMMANDS = ['WHERE', 'ACK', 'STATUS'] as const;
+
+export type SmsCommand = (typeof SMS_COMMANDS)[number];
+
+/**
+ * The command in an inbound text: its first word, in any case. Null when the
+ * text does not start with a known command.
+ */
+export function parseSmsCommand(body: string): SmsCommand | null {
+  const [word = ''] = body.trim().split(/\s+/);
+  const command = word.toUpperCase().replace(/[^A-Z]/g, '');
+  return SMS_COMMANDS.includes(command as SmsCommand) ? (command as SmsCommand) : null;
+}
+
+/**
+ * The trip a command is for, numbered as in the list a contact on several
+ * open trips is sent, e.g. 2 in "WHERE 2". Null when no number follows the
+ * command.
+ */
+export function parseSmsTripNumber(body: string): number | null {
+  const [, word = ''] = body.trim().split(/\s+/);
+  return /^[0-9]+$/.test(word) ? Number(word) : null;
+}
+
+/**
+ * The contact links for every open trip the sender is a contact on, oldest
+ * trip first, with the name of the user on each trip.
+ */
+async function findSenderTripContacts(app: App, fromNumber: string) {
+  const digits = getPhoneMatchDigits(fromNumber);
+  if (!digits) return [];
+
+  const contacts = await app.db.query.emergencyContacts.findMany({
+    where: phoneNumberMatches(schema.emergencyContacts.phoneNumber, digits),
+    columns: { id: true },
+  });
+
+  if (contacts.length === 0) return [];
+
+  const links = await app.db
+    .select({
+      id: schema.tripEmergencyContacts.id,
+      tripId: schema.tripEmergencyContacts.tripId,
+      userName: authSchema.user.name,
+    })
+    .from(schema.tripEmergencyContacts)
+    .innerJoin(schema.trips, eq(schema.trips.id, schema.tripEmergencyContacts.tripId))
+    .innerJoin(authSchema.user, eq(authSchema.user.id, schema.trips.userId))
+    .where(and(
+      inArray(schema.tripEmergencyContacts.emergencyContactId, contacts.map((contact) => contact.id)),
+      isNull(schema.trips.endTime)
+    ))
+    .orderBy(asc(schema.trips.startTime), asc(schema.tripEmergencyContacts.id));
+
+  // One link per trip, should the number be saved as more than one of its contacts
+  const tripLinks = links.filter((link, index) => links.findIndex((other) => other.tripId === link.tripId) === index);
+  if (tripLinks.length === 0) return [];
+
+  const tripContacts = await app.db.query.tripEmergencyContacts.findMany({
+    where: inArray(schema.tripEmergencyContacts.id, tripLinks.map((link) => link.id)),
+    with: {
+      trip: true,
+      emergencyContact: true,
+    },
+  });
+
+  return tripLinks.flatMap(({ id, userName }) => {
+    const tripContact = tripContacts.find((candidate) => candidate.id === id);
+    return tripContact ? [{ ...tripContact, userName }] : [];
+  });
+}
+
+/**
+ * Answer a text from an emergency contact. Returns the reply to send back,
+ * worded for the contact. A contact on more than one open trip is asked which
+ * trip they mean unless the command names one.
+ */
+export async function handleInboundSms(app: App, fromNumber: string, body: string): Promise<string> {
+  const tripContacts = await findSenderTripContacts(app, fromNumber);
+  if (tripContacts.length === 0) {
+    app.logger.info('Inbound SMS from a number with no open trip');
+    return renderSmsMessage(buildUnknownSenderReply(), { language: DEFAULT_LANGUAGE, timezone: DEFAULT_TIMEZONE });
+  }
+
+  // A single open trip needs no number, while with several the command has to name one
+  const tripNumber = parseSmsTripNumber(body);
+  const tripContact = tripNumber === null
+    ? (tripContacts.length === 1 ? tripContacts[0] : undefined)
+    : tripContacts[tripNumber - 1];
+
+  if (!tripContact) {
+    app.logger.info(
+      { trips: tripContacts.map((candidate) => candidate.tripId), tripNumber },
+      'Inbound SMS does not say which open trip it is for'
+    );
+    const trips = tripContacts.map(({ userName, trip }) => ({ userName, activityType: trip.activityType }));
+    return renderSmsMessage(buildWhichTripReply(trips), tripContacts[0].emergencyContact);
+  }
+
+  const command = parseSmsCommand(body);
+
+  app.logger.info(
+    { tripId: tripContact.tripId, contactId: tripContact.emergencyContactId, command },
+    'Inbound SMS from emergency contact'
+  );
+
+  const reply = await answerSmsCommand(app, tripContact, command);
+  const style = await loadMessageStyle(app, tripContact.trip.userId);
+  return renderSmsMessage(reply, tripContact.emergencyContact, style);
+}
+
+async function answerSmsCommand(
+  app: App,
+  tripContact: Awaited<ReturnType<typeof findSenderTripContacts>>[number],
+  command: SmsCommand | null
+): Promise<SmsMessage> {
+  const { trip } = tripContact;
+
+  switch (command) {
+    case 'WHERE':
+      return buildWhereReply(
+        formatDecimal(trip.lastLatitude),
+        formatDecimal(trip.lastLongitude),
+        trip.lastLocationUpdate,
+        getLastFix(trip)
+      );
+    case 'STATUS':
+      return buildTripStatusReply(trip.activityType, trip.status, trip.startTime, trip.lastLocationUpdate);
+    case 'ACK': {
+      await acknowledgeAlert(app, tripContact);
+      const alertActive = trip.status === 'sos' || ESCALATING_TRIP_STATUSES.includes(trip.status as TripStatus);
+      return buildAcknowledgedReply(trip.activityType, alertActive);
+    }
+    default:
+      return buildSmsCommandHelp();
+  }
+}
@@ -0,0 +1,402 @@
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+
+export const LANGUAGES = ['en', 'es'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+type LocalizedText = Record<Language, string>;
+
+type MessageTemplate = LocalizedText & {
+  // Shorter wording for GSM-7 mode that keeps the key facts in one segment
+  compact?: LocalizedText;
+};
+
+/**
+ * Default wording of every message. `{name}` placeholders are filled in when
+ * the message is sent; a line whose placeholders are all empty is left out,
+ * so optional details such as clothing can share one template.
+ */
+const DEFAULT_TEMPLATES = {
+  trip_started: {
+    en: 'SAFETY ALERT: Trip started\nActivity: {activity}\nClothing: {clothing}\nVehicle: {vehicle}\nLocation: {latitude}, {longitude}',
+    es: 'ALERTA DE SEGURIDAD: Viaje iniciado\nActividad: {activity}\nRopa: {clothing}\nVehículo: {vehicle}\nUbicación: {latitude}, {longitude}',
+    compact: {
+      en: 'Trip started: {activity} at {latitude},{longitude}\nClothing: {clothing}',
+      es: 'Viaje iniciado: {activity} en {latitude},{longitude}\nRopa: {clothing}',
+    },
+  },
+  location_update: {
+    en: 'Location update: {latitude}, {longitude}\nGPS: {gps}',
+    es: 'Actualización de ubicación: {latitude}, {longitude}\nGPS: {gps}',
+  },
+  location_digest: {
+    en: 'Trip update: {count} location updates since {since}\nLatest location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'Resumen del viaje: {count} actualizaciones de ubicación desde {since}\nÚltima ubicación: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'Trip update: {count} fixes since {since}. Latest {latitude},{longitude} {lastUpdate}',
+      es: 'Resumen: {count} posiciones desde {since}. Última {latitude},{longitude} {lastUpdate}',
+    },
+  },
+  sos: {
+    en: '🚨 SOS EMERGENCY ALERT 🚨\nURGENT: User needs help!\nClothing: {clothing}\nVehicle: {vehicle}\nPlanned route: {route}\nCurrent Location: {latitude}, {longitude}\nGPS: {gps}',
+    es: '🚨 ALERTA DE EMERGENCIA SOS 🚨\nURGENTE: ¡El usuario necesita ayuda!\nRopa: {clothing}\nVehículo: {vehicle}\nRuta prevista: {route}\nUbicación actual: {latitude}, {longitude}\nGPS: {gps}',
+    compact: {
+      en: 'SOS! Needs help now at {latitude},{longitude}\nClothing: {clothing}',
+      es: 'SOS! Necesita ayuda ya en {latitude},{longitude}\nRopa: {clothing}',
+    },
+  },
+  sos_cancelled: {
+    en: 'ALL CLEAR — FALSE ALARM: the SOS from the {activity} trip was cancelled.\nThey are OK and do not need help. Tracking continues as normal.',
+    es: 'TODO BIEN — FALSA ALARMA: se canceló el SOS del viaje de {activity}.\nEstá bien y no necesita ayuda. El seguimiento continúa con normalidad.',
+    compact: {
+      en: 'ALL CLEAR: the SOS on the {activity} trip was a false alarm. They are OK.',
+      es: 'TODO BIEN: el SOS del viaje de {activity} fue una falsa alarma. Está bien.',
+    },
+  },
+  trip_completed: {
+    en: 'Trip completed and tracking stopped.\nDistance: {distance} in {duration} (moving {movingDuration})\nElevation gain: {elevationGain} m',
+    es: 'Viaje completado y seguimiento detenido.\nDistancia: {distance} en {duration} (en movimiento {movingDuration})\nDesnivel positivo: {elevationGain} m',
+  },
+  trip_paused: {
+    en: 'Trip paused: {activity} tracking is paused. Location updates will stop until the trip resumes.\nReason: {reason}',
+    es: 'Viaje en pausa: el seguimiento de {activity} está en pausa. No habrá actualizaciones de ubicación hasta que se reanude.\nMotivo: {reason}',
+  },
+  trip_resumed: {
+    en: 'Trip resumed: {activity} tracking is active again.',
+    es: 'Viaje reanudado: el seguimiento de {activity} vuelve a estar activo.',
+  },
+  trip_cancelled: {
+    en: 'Trip cancelled: the {activity} trip was called off and tracking stopped. No further updates will be sent.\nReason: {reason}',
+    es: 'Viaje cancelado: el viaje de {activity} se suspendió y el seguimiento se detuvo. No se enviarán más actualizaciones.\nMotivo: {reason}',
+  },
+  alert_resolved: {
+    en: 'ALERT RESOLVED: the emergency on the {activity} trip is resolved and tracking stopped. No further action is needed.\nReason: {reason}',
+    es: 'ALERTA RESUELTA: la emergencia del viaje de {activity} está resuelta y el seguimiento se detuvo. No hace falta hacer nada más.\nMotivo: {reason}',
+  },
+  overdue: {
+    en: 'OVERDUE ALERT: {activity} trip has not been completed by the expected return time ({expectedReturnTime}).\nPlease try to reach them.\nClothing: {clothing}\nVehicle: {vehicle}\nLast known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'ALERTA DE RETRASO: el viaje de {activity} no ha terminado a la hora de regreso prevista ({expectedReturnTime}).\nPor favor, intenta contactarle.\nRopa: {clothing}\nVehículo: {vehicle}\nÚltima ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'OVERDUE: {activity} trip not back by {expectedReturnTime}. Last seen {latitude},{longitude} {lastUpdate}. Please try to reach them.',
+      es: 'RETRASO: viaje de {activity} debía volver el {expectedReturnTime}. Visto en {latitude},{longitude} {lastUpdate}. Intenta contactarle.',
+    },
+  },
+  overdue_second: {
+    en: 'OVERDUE ALERT (2nd notice): {activity} trip is now {overdueMinutes} min overdue with no check-out.\nIf you cannot reach them, be ready to call for help.\nClothing: {clothing}\nVehicle: {vehicle}\nLast known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'ALERTA DE RETRASO (2º aviso): el viaje de {activity} lleva {overdueMinutes} min de retraso sin cerrarse.\nSi no consigues contactarle, prepárate para pedir ayuda.\nRopa: {clothing}\nVehículo: {vehicle}\nÚltima ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'OVERDUE 2nd notice: {activity} trip {overdueMinutes} min late. Last seen {latitude},{longitude} {lastUpdate}. Be ready to call for help.',
+      es: 'RETRASO 2º aviso: viaje de {activity} {overdueMinutes} min tarde. Visto en {latitude},{longitude} {lastUpdate}. Prepárate para pedir ayuda.',
+    },
+  },
+  overdue_final: {
+    en: 'URGENT OVERDUE ALERT: {activity} trip is {overdueMinutes} min overdue.\nCall 911 or local Search and Rescue and share the details below.\nClothing: {clothing}\nVehicle: {vehicle}\nLast known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'ALERTA URGENTE DE RETRASO: el viaje de {activity} lleva {overdueMinutes} min de retraso.\nLlama al 911 o a Búsqueda y Rescate y comparte estos datos.\nRopa: {clothing}\nVehículo: {vehicle}\nÚltima ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'URGENT: {activity} trip {overdueMinutes} min overdue. Call 911/Search and Rescue. Last seen {latitude},{longitude} {lastUpdate}',
+      es: 'URGENTE: viaje de {activity} {overdueMinutes} min tarde. Llama al 911/rescate. Visto en {latitude},{longitude} {lastUpdate}',
+    },
+  },
+  missed_checkin: {
+    en: 'MISSED CHECK-IN ALERT: {activity} trip has not checked in within the {checkInIntervalMinutes} min check-in interval.\nPlease try to reach them.\nLast known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'ALERTA DE REGISTRO PERDIDO: el viaje de {activity} no se ha registrado en el intervalo de {checkInIntervalMinutes} min.\nPor favor, intenta contactarle.\nÚltima ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'MISSED CHECK-IN: {activity} trip silent for over {checkInIntervalMinutes} min. Last seen {latitude},{longitude} {lastUpdate}. Please try to reach them.',
+      es: 'SIN REGISTRO: viaje de {activity} sin noticias en {checkInIntervalMinutes} min. Visto en {latitude},{longitude} {lastUpdate}. Intenta contactarle.',
+    },
+  },
+  possibly_lost: {
+    en: 'POSSIBLY LOST: {activity} trip has been more than {offRouteDistance} m off the planned route since {offRouteSince}.\nPlease try to reach them.\nPlanned route: {route}\nLast known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'POSIBLEMENTE PERDIDO: el viaje de {activity} está a más de {offRouteDistance} m de la ruta prevista desde {offRouteSince}.\nPor favor, intenta contactarle.\nRuta prevista: {route}\nÚltima ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    compact: {
+      en: 'POSSIBLY LOST: {activity} trip {offRouteDistance} m+ off route since {offRouteSince}. Last seen {latitude},{longitude} {lastUpdate}',
+      es: 'POSIBLE EXTRAVÍO: viaje de {activity} a {offRouteDistance} m+ de la ruta desde {offRouteSince}. Visto en {latitude},{longitude} {lastUpdate}',
+    },
+  },
+  escalation: {
+    en: 'ESCALATED: earlier contacts have not acknowledged this alert.\n{alert}',
+    es: 'ESCALADA: los contactos anteriores no han confirmado esta alerta.\n{alert}',
+    compact: {
+      en: 'ESCALATED: {alert}',
+      es: 'ESCALADA: {alert}',
+    },
+  },
+  live_trip_link: {
+    en: 'Live trip: {url}',
+    es: 'Viaje en vivo: {url}',
+  },
+  acknowledge_link: {
+    en: 'Acknowledge: {url}',
+    es: 'Confirmar: {url}',
+  },
+  reply_where: {
+    en: 'Last known location: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+    es: 'Última ubicación conocida: {latitude}, {longitude} ({lastUpdate})\nGPS: {gps}',
+  },
+  reply_status: {
+    en: '{activity} trip status: {status}\nOut for {elapsed}, last check-in {lastUpdate}',
+    es: 'Estado del viaje de {activity}: {status}\nFuera desde hace {elapsed}, último registro {lastUpdate}',
+  },
+  reply_ack: {
+    en: 'Thanks, you are now handling the alert for the {activity} trip. We will stop escalating it to other contacts.',
+    es: 'Gracias, ahora te encargas de la alerta del viaje de {activity}. Dejaremos de avisar a otros contactos.',
+  },
+  reply_ack_no_alert: {
+    en: 'Thanks. There is no alert on the {activity} trip right now; we will text you if that changes.',
+    es: 'Gracias. Ahora mismo no hay ninguna alerta en el viaje de {activity}; te escribiremos si eso cambia.',
+  },
+  reply_help: {
+    en: 'Reply WHERE for the last known location, STATUS for the trip status, or ACK to confirm you are handling an alert.',
+    es: 'Responde WHERE para la última ubicación, STATUS para el estado del viaje o ACK para confirmar que te encargas de una alerta.',
+  },
+  reply_which_trip: {
+    en: 'You are a contact on more than one trip in progress:\n{trips}\nAdd the trip number to your command, e.g. WHERE 1.',
+    es: 'Eres contacto de más de un viaje en curso:\n{trips}\nAñade el número del viaje a tu orden, p. ej. WHERE 1.',
+  },
+  reply_unknown_sender: {
+    en: 'This number is not an emergency contact for a trip in progress.',
+    es: 'Este número no es un contacto de emergencia de ningún viaje en curso.',
+  },
+} satisfies Record<string, MessageTemplate>;
+
+export type TemplateKey = keyof typeof DEFAULT_TEMPLATES;
+
+export const TEMPLATE_KEYS = Object.keys(DEFAULT_TEMPLATES) as TemplateKey[];
+
+// A placeholder value. Dates are shown in the contact's time zone, localized
+// text in their language, and nested messages are rendered in place.
+export type SmsVar = string | number | Date | LocalizedText | SmsMessage | null | undefined;
+
+/**
+ * A message before it is worded for a recipient: which template to use and
+ * the values for its placeholders.
+ */
+export type SmsMessage = {
+  template: TemplateKey;
+  vars?: Record<string, SmsVar>;
+};
+
+/**
+ * How a user's messages are worded: their own templates, keyed by
+ * `templateKey:language`, and whether to send GSM-7 text only.
+ */
+export type MessageStyle = {
+  templates: Map<string, string>;
+  gsm7: boolean;
+};
+
+export type MessageRecipient = {
+  language: string;
+  timezone: string;
+};
+
+export const DEFAULT_MESSAGE_STYLE: MessageStyle = { templates: new Map(), gsm7: false };
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export function isLanguage(value: string): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+export function isTemplateKey(value: string): value is TemplateKey {
+  return value in DEFAULT_TEMPLATES;
+}
+
+export function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDefaultTemplate(key: TemplateKey, language: Language): string {
+  return DEFAULT_TEMPLATES[key][language];
+}
+
+/**
+ * Placeholders a template may use, taken from its default wording.
+ */
+export function getTemplatePlaceholders(key: TemplateKey): string[] {
+  const template: MessageTemplate = DEFAULT_TEMPLATES[key];
+  const bodies = LANGUAGES.flatMap((language) => [template[language], template.compact?.[language] ?? '']);
+  const names = bodies.flatMap((body) => [...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]));
+  return [...new Set(names)];
+}
+
+/**
+ * Placeholders in a custom template that the message does not provide.
+ */
+export function findUnknownPlaceholders(key: TemplateKey, body: string): string[] {
+  const allowed = getTemplatePlaceholders(key);
+  const used = [...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+  return [...new Set(used.filter((name) => !allowed.includes(name)))];
+}
+
+export async function loadMessageStyle(app: App, userId: string): Promise<MessageStyle> {
+  const [templates, settings] = await Promise.all([
+    app.db.query.messageTemplates.findMany({
+      where: eq(schema.messageTemplates.userId, userId),
+    }),
+    app.db.query.messageSettings.findFirst({
+      where: eq(schema.messageSettings.userId, userId),
+    }),
+  ]);
+
+  return {
+    templates: new Map(templates.map((template) => [`${template.templateKey}:${template.language}`, template.body])),
+    gsm7: settings?.gsm7 ?? false,
+  };
+}
+
+// Characters of the GSM 03.38 default alphabet, plus its extension table
+// (which costs two characters each)
+const GSM7_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENDED = '^{}\\[~]|€';
+
+const GSM7_REPLACEMENTS: Record<string, string> = {
+  '—': '-',
+  '–': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '±': '+/-',
+  '°': ' deg',
+  'º': '',
+  'í': 'i',
+  'á': 'a',
+  'ó': 'o',
+  'ú': 'u',
+  'Á': 'A',
+  'Í': 'I',
+  'Ó': 'O',
+  'Ú': 'U',
+};
+
+function isGsm7Char(char: string): boolean {
+  return GSM7_BASIC.includes(char) || GSM7_EXTENDED.includes(char);
+}
+
+/**
+ * Whether text can be sent in the GSM-7 alphabet as it is.
+ */
+export function isGsm7Text(text: string): boolean {
+  return [...text].every(isGsm7Char);
+}
+
+/**
+ * Rewrite text with GSM-7 characters only, so it is not sent as UCS-2 at
+ * twice the cost. Accents outside the alphabet are dropped and symbols with
+ * no equivalent, such as emoji, are removed.
+ */
+export function toGsm7(text: string): string {
+  let result = '';
+  for (const char of text) {
+    if (isGsm7Char(char)) {
+      result += char;
+    } else if (char in GSM7_REPLACEMENTS) {
+      result += GSM7_REPLACEMENTS[char];
+    } else {
+      const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      if ([...plain].every(isGsm7Char)) result += plain;
+    }
+  }
+  return result.replace(/ {2,}/g, ' ').replace(/^ +| +$/gm, '');
+}
+
+export function formatTime(date: Date, timezone: string, language: Language, compact: boolean): string {
+  const timeZone = isTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  return new Intl.DateTimeFormat(language, compact
+    ? { timeZone, day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }
+    : { timeZone, day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }
+  ).format(date);
+}
+
+function isLocalizedText(value: object): value is LocalizedText {
+  return LANGUAGES.every((language) => typeof (value as Record<string, unknown>)[language] === 'string');
+}
+
+function formatVar(value: SmsVar, recipient: MessageRecipient, style: MessageStyle, language: Language): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatTime(value, recipient.timezone, language, style.gsm7);
+  if (typeof value === 'object') {
+    return isLocalizedText(value) ? value[language] : renderTemplate(value, recipient, style, language);
+  }
+  return String(value);
+}
+
+function renderTemplate(message: SmsMessage, recipient: MessageRecipient, style: MessageStyle, language: Language): string {
+  const defaults: MessageTemplate = DEFAULT_TEMPLATES[message.template];
+  const template = style.templates.get(`${message.template}:${language}`)
+    ?? (style.gsm7 ? defaults.compact?.[language] : undefined)
+    ?? defaults[language];
+
+  const vars = message.vars ?? {};
+  const values = new Map<string, string>();
+  const valueOf = (name: string) => {
+    if (!values.has(name)) values.set(name, formatVar(vars[name], recipient, style, language));
+    return values.get(name)!;
+  };
+
+  return template
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+      return names.length === 0 || names.some((name) => valueOf(name) !== '');
+    })
+    .map((line) => line.replace(PLACEHOLDER_PATTERN, (_, name: string) => valueOf(name)))
+    .join('\n');
+}
+
+// The recipient's language, or the default when it is not one we support
+export function getRecipientLanguage(recipient: MessageRecipient): Language {
+  return isLanguage(recipient.language) ? recipient.language : DEFAULT_LANGUAGE;
+}
+
+// Short title for each kind of notification, used as an email subject and a
+// push notification title
+const NOTIFICATION_TITLES: Record<string, Record<Language, string>> = {
+  trip_started: { en: 'Trip started', es: 'Viaje iniciado' },
+  location_update: { en: 'Location update', es: 'Actualización de ubicación' },
+  location_digest: { en: 'Trip update', es: 'Resumen del viaje' },
+  trip_paused: { en: 'Trip paused', es: 'Viaje en pausa' },
+  trip_resumed: { en: 'Trip resumed', es: 'Viaje reanudado' },
+  trip_completed: { en: 'Back safely', es: 'De vuelta sin problemas' },
+  trip_cancelled: { en: 'Trip cancelled', es: 'Viaje cancelado' },
+  sos: { en: 'SOS - needs help now', es: 'SOS - necesita ayuda ya' },
+  sos_cancelled: { en: 'SOS cancelled', es: 'SOS cancelado' },
+  overdue: { en: 'Overdue alert', es: 'Alerta de retraso' },
+  missed_checkin: { en: 'Missed check-in', es: 'Registro perdido' },
+  possibly_lost: { en: 'Possibly lost', es: 'Posiblemente perdido' },
+  escalation: { en: 'Alert not yet answered', es: 'Alerta sin respuesta' },
+  alert_resolved: { en: 'Alert resolved', es: 'Alerta resuelta' },
+};
+
+const DEFAULT_NOTIFICATION_TITLE: Record<Language, string> = { en: 'Trip update', es: 'Novedades del viaje' };
+
+export function getNotificationTitle(eventType: string, recipient: MessageRecipient): string {
+  return (NOTIFICATION_TITLES[eventType] ?? DEFAULT_NOTIFICATION_TITLE)[getRecipientLanguage(recipient)];
+}
+
+/**
+ * Word a message for one recipient, in their language and time zone, using
+ * the sender's own templates where they have written them.
+ */
+export function renderSmsMessage(
+  message: SmsMessage,
+  recipient: MessageRecipient,
+  style: MessageStyle = DEFAULT_MESSAGE_STYLE
+): string {
+  const language = getRecipientLanguage(recipient);
+  const text = renderTemplate(message, recipient, style, language);
+  return style.gsm7 ? toGsm7(text) : text;
+}
@@ -0,0 +1,113 @@
+import { buildSmsStatusCallbackUrl } from './links.js';
+import { isGsm7Text } from './sms-templates.js';
+import { type Transport, type TransportResult, createTransportChain } from './transport-chain.js';
+
+export type SmsResult = TransportResult;
+
+export type OutgoingSms = {
+  to: string;
+  body: string;
+};
+
+export type SmsTransport = Transport<OutgoingSms>;
+
+const SMS_OUTBOX_FILE = process.env.SMS_OUTBOX_FILE || 'sms-outbox.jsonl';
+
+function createTwilioTransport(accountSid: string, authToken: string, fromNumber: string): SmsTransport {
+  // Load the Twilio SDK on first use so other transports do not pay for it
+  let client: Promise<any> | null = null;
+  // Delivery reports need a public URL Twilio can reach
+  const statusCallback = buildSmsStatusCallbackUrl();
+
+  return {
+    name: 'twilio',
+    async send(sms) {
+      // A failed import is not cached, so the next message tries again
+      client ??= import('twilio')
+        .then(({ default: twilio }) => twilio(accountSid, authToken))
+        .catch((error) => {
+          client = null;
+          throw error;
+        });
+      const sent = await (await client).messages.create({
+        body: sms.body,
+        from: fromNumber,
+        to: sms.to,
+        ...(statusCallback ? { statusCallback } : {}),
+      });
+      return { transport: 'twilio', messageId: sent.sid ?? null };
+    },
+  };
+}
+
+// Secondary SMS provider, called through its REST API
+function createVonageTransport(apiKey: string, apiSecret: string, fromNumber: string): SmsTransport {
+  return {
+    name: 'vonage',
+    async send(sms) {
+      const response = await fetch('https://rest.nexmo.com/sms/json', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          api_key: apiKey,
+          api_secret: apiSecret,
+          from: fromNumber,
+          to: sms.to.replace(/^\+/, ''),
+          text: sms.body,
+          // Unicode messages take twice the segments, so only use it when needed
+          type: isGsm7Text(sms.body) ? 'text' : 'unicode',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Vonage request failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json() as {
+        messages: { status: string; 'message-id'?: string; 'error-text'?: string }[];
+      };
+      const failed = data.messages.find((part) => part.status !== '0');
+      if (failed) {
+        throw new Error(`Vonage rejected the message: ${failed['error-text'] ?? `status ${failed.status}`}`);
+      }
+
+      return { transport: 'vonage', messageId: data.messages[0]?.['message-id'] ?? null };
+    },
+  };
+}
+
+function createTransport(name: string): SmsTransport {
+  switch (name) {
+    case 'twilio': {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
+        throw new Error('Twilio transport needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER');
+      }
+      return createTwilioTransport(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER);
+    }
+    case 'vonage': {
+      const { VONAGE_API_KEY, VONAGE_API_SECRET, VONAGE_FROM_NUMBER } = process.env;
+      if (!VONAGE_API_KEY || !VONAGE_API_SECRET || !VONAGE_FROM_NUMBER) {
+        throw new Error('Vonage transport needs VONAGE_API_KEY, VONAGE_API_SECRET and VONAGE_FROM_NUMBER');
+      }
+      return createVonageTransport(VONAGE_API_KEY, VONAGE_API_SECRET, VONAGE_FROM_NUMBER);
+    }
+    default:
+      throw new Error(`Unknown SMS transport "${name}"`);
+  }
+}
+
+/**
+ * The failover chain of SMS transports.
+ */
+export const smsTransports = createTransportChain<OutgoingSms>({
+  channel: 'SMS',
+  // Comma-separated transports to try in order, e.g. "twilio,vonage,file"
+  envName: 'SMS_TRANSPORTS',
+  // Without explicit configuration, send through Twilio when it is set up
+  defaultNames: () => (process.env.TWILIO_ACCOUNT_SID ? ['twilio'] : []),
+  createTransport,
+  outboxFile: SMS_OUTBOX_FILE,
+  describe: (sms) => ({ toNumber: sms.to }),
+  toRecord: (sms) => ({ to: sms.to, body: sms.body }),
+});
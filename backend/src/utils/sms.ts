@@ -1,37 +1,21 @@
-import twilio from 'twilio';
 import type { FastifyBaseLogger } from 'fastify';
+import type { FixMetadata } from './location-fix.js';
+import type { TripStats } from './trip-stats.js';
+import { formatDistance } from './geo.js';
+import { type SmsResult, smsTransports } from './sms-transports.js';
+import type { Language, SmsMessage, TemplateKey } from './sms-templates.js';
 
-const accountSid = process.env.TWILIO_ACCOUNT_SID || '';
-const authToken = process.env.TWILIO_AUTH_TOKEN || '';
-const fromNumber = process.env.TWILIO_PHONE_NUMBER || '';
-
-const client = twilio(accountSid, authToken);
-
+/**
+ * Send a text message through the configured transports, falling back to the
+ * next one whenever a transport fails. Throws the last transport's error when
+ * every transport failed.
+ */
 export async function sendSMS(
   toNumber: string,
   message: string,
   logger: FastifyBaseLogger
-): Promise<boolean> {
-  if (!accountSid || !authToken || !fromNumber) {
-    logger.warn(
-      { toNumber },
-      'SMS service not configured - skipping SMS send'
-    );
-    return false;
-  }
-
-  try {
-    await client.messages.create({
-      body: message,
-      from: fromNumber,
-      to: toNumber,
-    });
-    logger.info({ toNumber }, 'SMS sent successfully');
-    return true;
-  } catch (error) {
-    logger.error({ err: error, toNumber }, 'Failed to send SMS');
-    return false;
-  }
+): Promise<SmsResult> {
+  return smsTransports.send({ to: toNumber, body: message }, logger);
 }
 
 export function buildTripStartMessage(
@@ -40,54 +24,296 @@ export function buildTripStartMessage(
   vehicleDescription: string | null | undefined,
   latitude: string,
   longitude: string
-): string {
-  let message = `SAFETY ALERT: Trip started\n`;
-  message += `Activity: ${activityType}\n`;
+): SmsMessage {
+  return {
+    template: 'trip_started',
+    vars: {
+      activity: activityType,
+      clothing: clothingDescription,
+      vehicle: vehicleDescription,
+      latitude,
+      longitude,
+    },
+  };
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * One-line summary of the readings that help searchers, e.g.
+ * "±12 m, alt 1520 m, heading 270° W, 4.3 km/h, battery 45%".
+ * Returns an empty string when the fix carried no metadata.
+ */
+export function formatFixMetadata(fix: FixMetadata = {}): string {
+  const parts: string[] = [];
 
-  if (clothingDescription) {
-    message += `Clothing: ${clothingDescription}\n`;
+  if (fix.accuracy != null) {
+    parts.push(`±${Math.round(fix.accuracy)} m`);
   }
 
-  if (vehicleDescription) {
-    message += `Vehicle: ${vehicleDescription}\n`;
+  if (fix.altitude != null) {
+    parts.push(`alt ${Math.round(fix.altitude)} m`);
   }
 
-  message += `Location: ${latitude}, ${longitude}`;
+  if (fix.heading != null) {
+    const point = COMPASS_POINTS[Math.round(fix.heading / 45) % COMPASS_POINTS.length];
+    parts.push(`heading ${Math.round(fix.heading)}° ${point}`);
+  }
+
+  if (fix.speed != null) {
+    parts.push(`${(fix.speed * 3.6).toFixed(1)} km/h`);
+  }
+
+  if (fix.batteryLevel != null) {
+    parts.push(`battery ${Math.round(fix.batteryLevel * 100)}%`);
+  }
 
-  return message;
+  return parts.join(', ');
 }
 
 export function buildLocationUpdateMessage(
   latitude: string,
-  longitude: string
-): string {
-  return `Location update: ${latitude}, ${longitude}`;
+  longitude: string,
+  fix?: FixMetadata
+): SmsMessage {
+  return {
+    template: 'location_update',
+    vars: { latitude, longitude, gps: formatFixMetadata(fix) },
+  };
+}
+
+export function buildLocationDigestMessage(
+  count: number,
+  since: Date,
+  latitude: string,
+  longitude: string,
+  lastUpdate: Date,
+  fix?: FixMetadata
+): SmsMessage {
+  return {
+    template: 'location_digest',
+    vars: { count, since, latitude, longitude, lastUpdate, gps: formatFixMetadata(fix) },
+  };
 }
 
 export function buildSOSMessage(
   clothingDescription: string | null | undefined,
   vehicleDescription: string | null | undefined,
   latitude: string,
-  longitude: string
-): string {
-  let message = `🚨 SOS EMERGENCY ALERT 🚨\n`;
-  message += `URGENT: User needs help!\n`;
+  longitude: string,
+  fix?: FixMetadata,
+  plannedRoute?: string | null
+): SmsMessage {
+  return {
+    template: 'sos',
+    vars: {
+      clothing: clothingDescription,
+      vehicle: vehicleDescription,
+      route: plannedRoute,
+      latitude,
+      longitude,
+      gps: formatFixMetadata(fix),
+    },
+  };
+}
 
-  if (clothingDescription) {
-    message += `Clothing: ${clothingDescription}\n`;
-  }
+export function buildSOSCancelledMessage(activityType: string): SmsMessage {
+  return { template: 'sos_cancelled', vars: { activity: activityType } };
+}
+
+function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+export function buildTripCompleteMessage(stats?: TripStats): SmsMessage {
+  if (!stats) return { template: 'trip_completed' };
 
-  if (vehicleDescription) {
-    message += `Vehicle: ${vehicleDescription}\n`;
+  return {
+    template: 'trip_completed',
+    vars: {
+      distance: formatDistance(stats.distanceMeters),
+      duration: formatDuration(stats.durationSeconds),
+      movingDuration: formatDuration(stats.movingSeconds),
+      elevationGain: stats.elevationGainMeters !== null ? Math.round(stats.elevationGainMeters) : null,
+    },
+  };
+}
+
+export function buildTripPausedMessage(activityType: string, reason?: string | null): SmsMessage {
+  return { template: 'trip_paused', vars: { activity: activityType, reason } };
+}
+
+export function buildTripResumedMessage(activityType: string): SmsMessage {
+  return { template: 'trip_resumed', vars: { activity: activityType } };
+}
+
+export function buildTripCancelledMessage(activityType: string, reason?: string | null): SmsMessage {
+  return { template: 'trip_cancelled', vars: { activity: activityType, reason } };
+}
+
+export function buildAlertResolvedMessage(activityType: string, reason?: string | null): SmsMessage {
+  return { template: 'alert_resolved', vars: { activity: activityType, reason } };
+}
+
+export function buildOverdueMessage(
+  alertNumber: number,
+  activityType: string,
+  expectedReturnTime: Date,
+  clothingDescription: string | null | undefined,
+  vehicleDescription: string | null | undefined,
+  latitude: string,
+  longitude: string,
+  lastLocationUpdate: Date,
+  fix?: FixMetadata
+): SmsMessage {
+  const overdueMinutes = Math.max(
+    0,
+    Math.round((Date.now() - expectedReturnTime.getTime()) / 60000)
+  );
+
+  let template: TemplateKey = 'overdue_final';
+  if (alertNumber <= 1) {
+    template = 'overdue';
+  } else if (alertNumber === 2) {
+    template = 'overdue_second';
   }
 
-  message += `Current Location: ${latitude}, ${longitude}`;
+  return {
+    template,
+    vars: {
+      activity: activityType,
+      expectedReturnTime,
+      overdueMinutes,
+      clothing: clothingDescription,
+      vehicle: vehicleDescription,
+      latitude,
+      longitude,
+      lastUpdate: lastLocationUpdate,
+      gps: formatFixMetadata(fix),
+    },
+  };
+}
+
+export function buildMissedCheckInMessage(
+  activityType: string,
+  checkInIntervalMinutes: number,
+  latitude: string,
+  longitude: string,
+  lastLocationUpdate: Date,
+  fix?: FixMetadata
+): SmsMessage {
+  return {
+    template: 'missed_checkin',
+    vars: {
+      activity: activityType,
+      checkInIntervalMinutes,
+      latitude,
+      longitude,
+      lastUpdate: lastLocationUpdate,
+      gps: formatFixMetadata(fix),
+    },
+  };
+}
+
+export function buildPossiblyLostMessage(
+  activityType: string,
+  offRouteDistanceMeters: number,
+  offRouteSince: Date,
+  plannedRoute: string | null | undefined,
+  latitude: string,
+  longitude: string,
+  lastLocationUpdate: Date,
+  fix?: FixMetadata
+): SmsMessage {
+  return {
+    template: 'possibly_lost',
+    vars: {
+      activity: activityType,
+      offRouteDistance: Math.round(offRouteDistanceMeters),
+      offRouteSince,
+      route: plannedRoute,
+      latitude,
+      longitude,
+      lastUpdate: lastLocationUpdate,
+      gps: formatFixMetadata(fix),
+    },
+  };
+}
+
+export function buildEscalationMessage(alertMessage: SmsMessage): SmsMessage {
+  return { template: 'escalation', vars: { alert: alertMessage } };
+}
+
+export function buildWhereReply(
+  latitude: string,
+  longitude: string,
+  lastLocationUpdate: Date,
+  fix?: FixMetadata
+): SmsMessage {
+  return {
+    template: 'reply_where',
+    vars: { latitude, longitude, lastUpdate: lastLocationUpdate, gps: formatFixMetadata(fix) },
+  };
+}
+
+// Trip statuses as contacts read them
+const STATUS_LABELS: Record<string, Record<Language, string>> = {
+  active: { en: 'active', es: 'activo' },
+  paused: { en: 'paused', es: 'en pausa' },
+  sos: { en: 'SOS', es: 'SOS' },
+  overdue: { en: 'overdue', es: 'con retraso' },
+  missed_checkin: { en: 'missed check-in', es: 'registro perdido' },
+  possibly_lost: { en: 'possibly lost', es: 'posiblemente perdido' },
+  cancelled: { en: 'cancelled', es: 'cancelado' },
+  completed: { en: 'completed', es: 'completado' },
+  resolved: { en: 'resolved', es: 'resuelto' },
+};
+
+export function buildTripStatusReply(
+  activityType: string,
+  status: string,
+  startTime: Date,
+  lastLocationUpdate: Date
+): SmsMessage {
+  const elapsedSeconds = Math.max(0, (Date.now() - startTime.getTime()) / 1000);
+  return {
+    template: 'reply_status',
+    vars: {
+      activity: activityType,
+      status: STATUS_LABELS[status] ?? status,
+      elapsed: formatDuration(elapsedSeconds),
+      lastUpdate: lastLocationUpdate,
+    },
+  };
+}
+
+export function buildAcknowledgedReply(activityType: string, alertActive: boolean): SmsMessage {
+  return {
+    template: alertActive ? 'reply_ack' : 'reply_ack_no_alert',
+    vars: { activity: activityType },
+  };
+}
+
+export function buildSmsCommandHelp(): SmsMessage {
+  return { template: 'reply_help' };
+}
 
-  return message;
+// Asks a contact on several open trips which one a command is for, numbered
+// in the order the trips started
+export function buildWhichTripReply(trips: { userName: string; activityType: string }[]): SmsMessage {
+  return {
+    template: 'reply_which_trip',
+    vars: {
+      trips: trips.map((trip, index) => `${index + 1}. ${trip.userName} (${trip.activityType})`).join('\n'),
+    },
+  };
 }
 
-export function buildTripCompleteMessage(): string {
-  return `Trip completed and tracking stopped.`;
+export function buildUnknownSenderReply(): SmsMessage {
+  return { template: 'reply_unknown_sender' };
 }
 
 export function formatDecimal(value: any): string {
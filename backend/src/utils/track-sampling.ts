@@ -0,0 +1,22 @@
+type SampledPoint = {
+  isSos: boolean;
+};
+
+/**
+ * Reduce an ordered track to at most maxPoints by keeping evenly spaced
+ * points. The first and last points and every SOS point are always kept, so
+ * the result can slightly exceed maxPoints on tracks with many SOS fixes.
+ */
+export function downsampleTrack<T extends SampledPoint>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) return points;
+
+  const last = points.length - 1;
+  const step = last / Math.max(maxPoints - 1, 1);
+  const keep = new Set<number>([0, last]);
+
+  for (let i = 1; i < maxPoints - 1; i++) {
+    keep.add(Math.round(i * step));
+  }
+
+  return points.filter((point, index) => keep.has(index) || point.isSos);
+}
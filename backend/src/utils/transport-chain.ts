@@ -0,0 +1,167 @@
+import { appendFile } from 'node:fs/promises';
+import type { FastifyBaseLogger } from 'fastify';
+
+export type TransportResult = {
+  transport: string;
+  // Provider's id for the message, when it returns one
+  messageId: string | null;
+};
+
+/**
+ * A way of delivering a message. send() throws when the message could not
+ * be handed over, so the next transport in the chain can be tried.
+ */
+export type Transport<Message> = {
+  name: string;
+  send(message: Message, logger: FastifyBaseLogger): Promise<TransportResult>;
+};
+
+type TransportChainOptions<Message> = {
+  // What is sent, for log messages, e.g. 'SMS' or 'Email'
+  channel: string;
+  // Environment variable listing the transports to try in order, comma-separated
+  envName: string;
+  // Transports used when the environment variable is not set
+  defaultNames(): string[];
+  // The channel's own providers; 'console' and 'file' are always available
+  createTransport(name: string): Transport<Message>;
+  // Where the file transport appends messages
+  outboxFile: string;
+  // Log fields that identify a message, such as its recipient
+  describe(message: Message): Record<string, unknown>;
+  // The whole message as written by the console and file transports
+  toRecord(message: Message): Record<string, unknown>;
+  // Errors that no other transport can get past, so the chain stops there
+  isFinal?(error: unknown): boolean;
+  // Whether the app can run without this channel, which is then turned off
+  // when none of its transports are available
+  optional?: boolean;
+};
+
+export type TransportChain<Message> = {
+  getTransports(logger: FastifyBaseLogger): Transport<Message>[];
+  // False for an optional channel that has no transport, so callers can skip it
+  isEnabled(logger: FastifyBaseLogger): boolean;
+  send(message: Message, logger: FastifyBaseLogger): Promise<TransportResult>;
+};
+
+// Writes messages to the log instead of sending them
+function createConsoleTransport<Message>(
+  channel: string,
+  toRecord: (message: Message) => Record<string, unknown>
+): Transport<Message> {
+  return {
+    name: 'console',
+    async send(message, logger) {
+      logger.info(toRecord(message), `${channel} (console transport)`);
+      return { transport: 'console', messageId: null };
+    },
+  };
+}
+
+// Appends one JSON object per message to a file, for local development and tests
+function createFileTransport<Message>(
+  path: string,
+  toRecord: (message: Message) => Record<string, unknown>
+): Transport<Message> {
+  return {
+    name: 'file',
+    async send(message) {
+      const line = JSON.stringify({ sentAt: new Date().toISOString(), ...toRecord(message) });
+      await appendFile(path, `${line}\n`, 'utf8');
+      return { transport: 'file', messageId: null };
+    },
+  };
+}
+
+/**
+ * A failover chain of transports for one channel, built on first use.
+ * Transports that are misconfigured are left out with an error in the log.
+ * If none are left, development falls back to the console transport so
+ * messages are at least recorded. Production throws, as messages would
+ * never reach anyone, unless the channel is optional; it is then turned off
+ * with a warning and sending on it fails.
+ */
+export function createTransportChain<Message>(options: TransportChainOptions<Message>): TransportChain<Message> {
+  const { channel } = options;
+  let transports: Transport<Message>[] | null = null;
+
+  const createTransport = (name: string) => {
+    if (name === 'console') return createConsoleTransport(channel, options.toRecord);
+    if (name === 'file') return createFileTransport(options.outboxFile, options.toRecord);
+    return options.createTransport(name);
+  };
+
+  const getConfiguredNames = () => {
+    const configured = process.env[options.envName];
+    if (configured) {
+      return configured.split(',').map((name) => name.trim()).filter(Boolean);
+    }
+    return options.defaultNames();
+  };
+
+  const getTransports = (logger: FastifyBaseLogger) => {
+    if (transports) return transports;
+
+    const available: Transport<Message>[] = [];
+    for (const name of getConfiguredNames()) {
+      try {
+        available.push(createTransport(name));
+      } catch (error) {
+        logger.error({ err: error, transport: name }, `${channel} transport not available`);
+      }
+    }
+
+    if (available.length === 0 && process.env.NODE_ENV === 'production') {
+      if (!options.optional) {
+        throw new Error(`No ${channel} transport available - set ${options.envName} or its provider's settings`);
+      }
+      logger.warn(`No ${channel} transport available - ${channel} is turned off`);
+      transports = available;
+      return transports;
+    }
+
+    if (available.length === 0) {
+      logger.warn(`No ${channel} transport configured - messages will only be logged`);
+      available.push(createConsoleTransport(channel, options.toRecord));
+    }
+
+    logger.info({ transports: available.map((transport) => transport.name) }, `${channel} transports ready`);
+    transports = available;
+    return transports;
+  };
+
+  return {
+    getTransports,
+
+    isEnabled(logger) {
+      return getTransports(logger).length > 0;
+    },
+
+    // Try each transport in order, falling back to the next one whenever a
+    // transport fails. Throws the last transport's error when all failed.
+    async send(message, logger) {
+      const context = options.describe(message);
+      if (getTransports(logger).length === 0) {
+        throw new Error(`${channel} is turned off - no transport is available`);
+      }
+
+      let lastError: unknown = null;
+
+      for (const transport of getTransports(logger)) {
+        try {
+          const result = await transport.send(message, logger);
+          logger.info({ ...context, transport: result.transport, messageId: result.messageId }, `${channel} sent successfully`);
+          return result;
+        } catch (error) {
+          if (options.isFinal?.(error)) throw error;
+          lastError = error;
+          logger.error({ err: error, ...context, transport: transport.name }, `${channel} transport failed, trying the next one`);
+        }
+      }
+
+      logger.error(context, `Failed to send ${channel} on every transport`);
+      throw lastError;
+    },
+  };
+}
@@ -0,0 +1,281 @@
+import { eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import {
+  type Notification,
+  type NotificationChannel,
+  sendNotification,
+  queueNotification,
+  drainNotificationQueue,
+} from './notifications.js';
+import { buildAcknowledgeUrl, buildShareUrl } from './links.js';
+import { publishTripEvent } from './trip-events.js';
+import {
+  type SmsMessage,
+  type MessageStyle,
+  type MessageRecipient,
+  loadMessageStyle,
+  renderSmsMessage,
+  getNotificationTitle,
+} from './sms-templates.js';
+import { type EmailTrip, loadEmailTrip, buildTripEmail, isEmailEnabled } from './email.js';
+import { PUSH_EVENT_TYPES, findContactPushTokens, isPushEnabled } from './push.js';
+
+export type TripContact = typeof schema.tripEmergencyContacts.$inferSelect & {
+  emergencyContact: typeof schema.emergencyContacts.$inferSelect;
+};
+
+// Relational query fragment that loads a trip's contacts ordered by tier
+export const withTripContacts = {
+  emergencyContacts: {
+    with: {
+      emergencyContact: true,
+    },
+    orderBy: (contacts, { asc }) => [asc(contacts.tier), asc(contacts.createdAt)],
+  },
+} as const;
+
+export const tripContactsResponseSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      name: { type: 'string' },
+      phoneNumber: { type: 'string' },
+      tier: { type: 'integer' },
+      acknowledgedAt: { type: ['string', 'null'], format: 'date-time' },
+    },
+  },
+};
+
+export function formatTripContacts(contacts: TripContact[]) {
+  return contacts.map((contact) => ({
+    id: contact.emergencyContact.id,
+    name: contact.emergencyContact.name,
+    phoneNumber: contact.emergencyContact.phoneNumber,
+    tier: contact.tier,
+    acknowledgedAt: contact.acknowledgedAt,
+  }));
+}
+
+/**
+ * Channels a contact is notified on. Email needs an address and email to be
+ * turned on, so without either a contact gets SMS whatever they chose.
+ */
+export function getContactChannels(
+  contact: typeof schema.emergencyContacts.$inferSelect,
+  emailEnabled: boolean
+): NotificationChannel[] {
+  if (!contact.email || !emailEnabled || contact.notificationChannel === 'sms') return ['sms'];
+  return contact.notificationChannel === 'both' ? ['sms', 'email'] : ['email'];
+}
+
+// The message worded for one contact, followed by the trip and acknowledgement links
+function renderNotificationText(
+  message: SmsMessage,
+  recipient: MessageRecipient,
+  style: MessageStyle,
+  shareUrl: string | null,
+  acknowledgeUrl: string | null
+): string {
+  let body = renderSmsMessage(message, recipient, style);
+  if (shareUrl) {
+    body += `\n${renderSmsMessage({ template: 'live_trip_link', vars: { url: shareUrl } }, recipient, style)}`;
+  }
+  if (acknowledgeUrl) {
+    body += `\n${renderSmsMessage({ template: 'acknowledge_link', vars: { url: acknowledgeUrl } }, recipient, style)}`;
+  }
+  return body;
+}
+
+/**
+ * Send a message to each of the given trip contacts, by SMS, email or both
+ * as each contact chose, with a link to the live trip page when a share
+ * token is given. Alerts also carry a per-contact acknowledgement link and
+ * record when each contact was alerted, which drives escalation to the next
+ * tier. Each contact gets the message in their own language and time zone,
+ * worded with the trip owner's templates; emails add the map, recent trail
+ * and trip details. Contacts who use the app also get the main events as
+ * push notifications, sent from the queue in the background. Every message
+ * is logged as a notification of the given event type; failed sends are
+ * retried later.
+ */
+export async function notifyTripContacts(
+  app: App,
+  contacts: TripContact[],
+  message: SmsMessage,
+  options: { eventType: string; alert?: boolean; shareToken?: string }
+): Promise<Notification[]> {
+  if (contacts.length === 0) return [];
+
+  const style = await loadMessageStyle(app, contacts[0].emergencyContact.userId);
+  const shareUrl = options.shareToken ? buildShareUrl(options.shareToken) : null;
+
+  // Emails and push notifications are not bound to SMS length, so they
+  // always use the full wording
+  const richStyle: MessageStyle = { ...style, gsm7: false };
+  const sendsPush = PUSH_EVENT_TYPES.includes(options.eventType) && isPushEnabled(app);
+  let pushQueued = false;
+  const emailEnabled = isEmailEnabled(app.logger);
+  let emailTrip: EmailTrip | undefined;
+  if (contacts.some((contact) => getContactChannels(contact.emergencyContact, emailEnabled).includes('email'))) {
+    emailTrip = await loadEmailTrip(app, contacts[0].tripId);
+  }
+
+  const notifications: Notification[] = [];
+  for (const contact of contacts) {
+    const recipient = contact.emergencyContact;
+    const acknowledgeUrl = options.alert ? buildAcknowledgeUrl(contact.acknowledgeToken) : null;
+    const channels = getContactChannels(recipient, emailEnabled);
+
+    if (channels.includes('sms')) {
+      notifications.push(await sendNotification(app, {
+        tripId: contact.tripId,
+        emergencyContactId: recipient.id,
+        channel: 'sms',
+        toNumber: recipient.phoneNumber,
+        eventType: options.eventType,
+        body: renderNotificationText(message, recipient, style, shareUrl, acknowledgeUrl),
+      }));
+    }
+
+    if (channels.includes('email') && emailTrip) {
+      const email = buildTripEmail(emailTrip, {
+        eventType: options.eventType,
+        text: renderNotificationText(message, recipient, richStyle, shareUrl, acknowledgeUrl),
+        recipient,
+        alert: !!options.alert,
+        shareUrl,
+        acknowledgeUrl,
+      });
+
+      notifications.push(await sendNotification(app, {
+        tripId: contact.tripId,
+        emergencyContactId: recipient.id,
+        channel: 'email',
+        toEmail: recipient.email,
+        subject: email.subject,
+        html: email.html,
+        eventType: options.eventType,
+        body: email.text,
+      }));
+    }
+
+    if (sendsPush) {
+      for (const token of await findContactPushTokens(app, recipient)) {
+        notifications.push(await queueNotification(app, {
+          tripId: contact.tripId,
+          emergencyContactId: recipient.id,
+          channel: 'push',
+          toPushToken: token,
+          subject: getNotificationTitle(options.eventType, recipient),
+          link: shareUrl,
+          eventType: options.eventType,
+          body: renderSmsMessage(message, recipient, richStyle),
+        }));
+        pushQueued = true;
+      }
+    }
+  }
+
+  if (pushQueued) drainNotificationQueue(app);
+
+  if (!options.alert) return notifications;
+
+  await app.db.update(schema.tripEmergencyContacts)
+    .set({ alertedAt: new Date() })
+    .where(inArray(schema.tripEmergencyContacts.id, contacts.map((contact) => contact.id)));
+
+  return notifications;
+}
+
+/**
+ * Record that a contact is handling the trip's alert, which stops escalation
+ * to later tiers. Returns the acknowledgement time.
+ */
+export async function acknowledgeAlert(
+  app: App,
+  tripContact: typeof schema.tripEmergencyContacts.$inferSelect & { emergencyContact: { name: string } }
+): Promise<Date> {
+  const now = new Date();
+  await app.db.update(schema.tripEmergencyContacts)
+    .set({ acknowledgedAt: now })
+    .where(eq(schema.tripEmergencyContacts.id, tripContact.id));
+
+  app.logger.info(
+    { tripId: tripContact.tripId, contactId: tripContact.emergencyContactId },
+    'Alert acknowledged by emergency contact'
+  );
+
+  publishTripEvent({
+    type: 'acknowledgement',
+    tripId: tripContact.tripId,
+    contactId: tripContact.emergencyContactId,
+    contactName: tripContact.emergencyContact.name,
+    acknowledgedAt: now,
+  });
+
+  return now;
+}
+
+function getTiers(contacts: TripContact[]): number[] {
+  return [...new Set(contacts.map((contact) => contact.tier))].sort((a, b) => a - b);
+}
+
+function wasAlertedSince(contact: TripContact, since: Date): boolean {
+  return !!contact.alertedAt && contact.alertedAt >= since;
+}
+
+export function isAlertAcknowledged(contacts: TripContact[], alertRaisedAt: Date): boolean {
+  return contacts.some(
+    (contact) => !!contact.acknowledgedAt && contact.acknowledgedAt >= alertRaisedAt
+  );
+}
+
+/**
+ * Contacts that were sent an alert at or after the given time.
+ */
+export function getAlertedContacts(contacts: TripContact[], since: Date): TripContact[] {
+  return contacts.filter((contact) => wasAlertedSince(contact, since));
+}
+
+/**
+ * Contacts that should receive the current alert: the first tier, plus every
+ * tier the alert has already been escalated to.
+ */
+export function getAlertRecipients(contacts: TripContact[], alertRaisedAt: Date | null): TripContact[] {
+  const [firstTier] = getTiers(contacts);
+  return contacts.filter(
+    (contact) =>
+      contact.tier === firstTier ||
+      (alertRaisedAt !== null && wasAlertedSince(contact, alertRaisedAt))
+  );
+}
+
+/**
+ * Contacts in the next tier that has not yet received the current alert, or
+ * an empty array when every tier has been alerted.
+ */
+export function getNextEscalationTier(contacts: TripContact[], alertRaisedAt: Date): TripContact[] {
+  const nextTier = getTiers(contacts).find((tier) =>
+    contacts
+      .filter((contact) => contact.tier === tier)
+      .every((contact) => !wasAlertedSince(contact, alertRaisedAt))
+  );
+
+  if (nextTier === undefined) return [];
+  return contacts.filter((contact) => contact.tier === nextTier);
+}
+
+/**
+ * Most recent time any contact was sent the current alert.
+ */
+export function getLastAlertedAt(contacts: TripContact[], alertRaisedAt: Date): Date | null {
+  const alerted = contacts
+    .filter((contact) => wasAlertedSince(contact, alertRaisedAt))
+    .map((contact) => contact.alertedAt.getTime());
+
+  if (alerted.length === 0) return null;
+  return new Date(Math.max(...alerted));
+}
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'node:events';
+
+export type TripEvent =
+  | {
+      type: 'location';
+      tripId: string;
+      latitude: string;
+      longitude: string;
+      timestamp: Date;
+    }
+  | {
+      type: 'status';
+      tripId: string;
+      status: string;
+      previousStatus: string;
+      reason?: string;
+      timestamp: Date;
+    }
+  | {
+      type: 'acknowledgement';
+      tripId: string;
+      contactId: string;
+      contactName: string;
+      acknowledgedAt: Date;
+    }
+  | {
+      type: 'notification';
+      tripId: string;
+      notificationId: string;
+      contactId: string | null;
+      status: string;
+      errorCode: string | null;
+      timestamp: Date;
+    };
+
+// In-process fan-out of trip changes to live subscribers (WebSocket streams)
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishTripEvent(event: TripEvent) {
+  emitter.emit(event.tripId, event);
+}
+
+export function publishTripStatusChange(tripId: string, previousStatus: string, status: string, reason?: string) {
+  if (previousStatus === status) return;
+  publishTripEvent({
+    type: 'status',
+    tripId,
+    status,
+    previousStatus,
+    reason,
+    timestamp: new Date(),
+  });
+}
+
+/**
+ * Listen for events on one trip. Returns a function that removes the listener.
+ */
+export function subscribeToTrip(tripId: string, listener: (event: TripEvent) => void): () => void {
+  emitter.on(tripId, listener);
+  return () => {
+    emitter.off(tripId, listener);
+  };
+}
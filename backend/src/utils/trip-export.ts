@@ -0,0 +1,271 @@
+import * as schema from '../db/schema/schema.js';
+import { escapeHtml } from './html.js';
+
+export type ExportTrip = typeof schema.trips.$inferSelect & {
+  locationUpdates: (typeof schema.locationUpdates.$inferSelect)[];
+};
+
+export type ExportPoint = {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  time: Date;
+};
+
+export type ExportWaypoint = ExportPoint & {
+  name: string;
+  type: 'start' | 'sos' | 'end' | 'last_known';
+};
+
+const CREATOR = 'Trail Tracker';
+
+/**
+ * Recorded track of a trip: the start point followed by every location
+ * update in the order the device recorded them.
+ */
+export function getTrackPoints(trip: ExportTrip): ExportPoint[] {
+  const updates = [...trip.locationUpdates].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+
+  return [
+    {
+      latitude: Number(trip.startLatitude),
+      longitude: Number(trip.startLongitude),
+      altitude: null,
+      time: trip.startTime,
+    },
+    ...updates.map((update) => ({
+      latitude: Number(update.latitude),
+      longitude: Number(update.longitude),
+      altitude: update.altitude,
+      time: update.timestamp,
+    })),
+  ];
+}
+
+/**
+ * Points of interest for searchers: where the trip started, every SOS, and
+ * where it ended (or the last known position while it is still running).
+ */
+export function getWaypoints(trip: ExportTrip): ExportWaypoint[] {
+  const waypoints: ExportWaypoint[] = [
+    {
+      name: 'Start',
+      type: 'start',
+      latitude: Number(trip.startLatitude),
+      longitude: Number(trip.startLongitude),
+      altitude: null,
+      time: trip.startTime,
+    },
+  ];
+
+  for (const update of trip.locationUpdates.filter((update) => update.isSos)) {
+    waypoints.push({
+      name: 'SOS',
+      type: 'sos',
+      latitude: Number(update.latitude),
+      longitude: Number(update.longitude),
+      altitude: update.altitude,
+      time: update.timestamp,
+    });
+  }
+
+  waypoints.push({
+    name: trip.endTime ? 'End' : 'Last known position',
+    type: trip.endTime ? 'end' : 'last_known',
+    latitude: Number(trip.lastLatitude),
+    longitude: Number(trip.lastLongitude),
+    altitude: trip.lastAltitude,
+    time: trip.endTime ?? trip.lastLocationUpdate,
+  });
+
+  return waypoints;
+}
+
+export function getExportTitle(trip: ExportTrip): string {
+  return `${trip.activityType} trip ${trip.startTime.toISOString().slice(0, 10)}`;
+}
+
+export function getExportDescription(trip: ExportTrip): string {
+  return [
+    `Status: ${trip.status}`,
+    trip.clothingDescription ? `Clothing: ${trip.clothingDescription}` : null,
+    trip.vehicleDescription ? `Vehicle: ${trip.vehicleDescription}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function gpxPointBody(point: ExportPoint): string {
+  const elevation = point.altitude !== null ? `<ele>${point.altitude}</ele>` : '';
+  return `${elevation}<time>${point.time.toISOString()}</time>`;
+}
+
+function gpxPointAttributes(point: ExportPoint): string {
+  return `lat="${point.latitude}" lon="${point.longitude}"`;
+}
+
+/**
+ * GPX 1.1 document with the trip's waypoints and recorded track.
+ */
+export function buildGpx(trip: ExportTrip): string {
+  const title = escapeHtml(getExportTitle(trip));
+
+  const waypoints = getWaypoints(trip)
+    .map((waypoint) =>
+      `  <wpt ${gpxPointAttributes(waypoint)}>${gpxPointBody(waypoint)}` +
+      `<name>${escapeHtml(waypoint.name)}</name><type>${waypoint.type}</type></wpt>`
+    )
+    .join('\n');
+
+  const trackPoints = getTrackPoints(trip)
+    .map((point) => `      <trkpt ${gpxPointAttributes(point)}>${gpxPointBody(point)}</trkpt>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${title}</name>
+    <desc>${escapeHtml(getExportDescription(trip))}</desc>
+    <time>${trip.startTime.toISOString()}</time>
+  </metadata>
+${waypoints}
+  <trk>
+    <name>${title}</name>
+    <type>${escapeHtml(trip.activityType)}</type>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+function toCoordinates(point: ExportPoint): number[] {
+  return point.altitude !== null
+    ? [point.longitude, point.latitude, point.altitude]
+    : [point.longitude, point.latitude];
+}
+
+// Lines keep one dimension throughout, so altitude is dropped unless every point has it
+function toTrailCoordinates(points: ExportPoint[]): number[][] {
+  const withAltitude = points.every((point) => point.altitude !== null);
+  return points.map((point) =>
+    withAltitude ? toCoordinates(point) : [point.longitude, point.latitude]
+  );
+}
+
+function getTripProperties(trip: ExportTrip) {
+  return {
+    tripId: trip.id,
+    activityType: trip.activityType,
+    clothingDescription: trip.clothingDescription,
+    vehicleDescription: trip.vehicleDescription,
+    status: trip.status,
+    startTime: trip.startTime.toISOString(),
+    endTime: trip.endTime ? trip.endTime.toISOString() : null,
+  };
+}
+
+// A LineString needs at least two positions, so a trail of one point is a Point
+function toTrailGeometry(trackPoints: ExportPoint[]) {
+  const coordinates = toTrailCoordinates(trackPoints);
+  if (coordinates.length === 1) {
+    return { type: 'Point', coordinates: coordinates[0] };
+  }
+  return { type: 'LineString', coordinates };
+}
+
+/**
+ * GeoJSON FeatureCollection: the trail as a LineString, or a Point when it
+ * has a single position, followed by a Point for each waypoint.
+ */
+export function buildGeoJson(trip: ExportTrip) {
+  const trackPoints = getTrackPoints(trip);
+  const properties = getTripProperties(trip);
+  const trail = trackPoints.length > 0
+    ? [{
+        type: 'Feature',
+        geometry: toTrailGeometry(trackPoints),
+        properties: {
+          ...properties,
+          kind: 'trail',
+          name: getExportTitle(trip),
+          times: trackPoints.map((point) => point.time.toISOString()),
+        },
+      }]
+    : [];
+
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...trail,
+      ...getWaypoints(trip).map((waypoint) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: toCoordinates(waypoint),
+        },
+        properties: {
+          ...properties,
+          kind: waypoint.type,
+          name: waypoint.name,
+          time: waypoint.time.toISOString(),
+        },
+      })),
+    ],
+  };
+}
+
+/**
+ * KML document for Google Earth with the trail and a placemark per waypoint.
+ */
+export function buildKml(trip: ExportTrip): string {
+  const title = escapeHtml(getExportTitle(trip));
+  const properties = getTripProperties(trip);
+
+  const extendedData = Object.entries(properties)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `        <Data name="${name}"><value>${escapeHtml(String(value))}</value></Data>`)
+    .join('\n');
+
+  const placemarks = getWaypoints(trip)
+    .map((waypoint) => `    <Placemark>
+      <name>${escapeHtml(waypoint.name)}</name>
+      <TimeStamp><when>${waypoint.time.toISOString()}</when></TimeStamp>
+      <styleUrl>#${waypoint.type}</styleUrl>
+      <Point><coordinates>${toCoordinates(waypoint).join(',')}</coordinates></Point>
+    </Placemark>`)
+    .join('\n');
+
+  const trailCoordinates = toTrailCoordinates(getTrackPoints(trip))
+    .map((coordinates) => coordinates.join(','))
+    .join(' ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${title}</name>
+    <description>${escapeHtml(getExportDescription(trip))}</description>
+    <Style id="trail"><LineStyle><color>ff0000ff</color><width>3</width></LineStyle></Style>
+    <Style id="start"><IconStyle><color>ff00ff00</color></IconStyle></Style>
+    <Style id="sos"><IconStyle><color>ff0000ff</color><scale>1.3</scale></IconStyle></Style>
+    <Style id="end"><IconStyle><color>ffff0000</color></IconStyle></Style>
+    <Style id="last_known"><IconStyle><color>ff00ffff</color></IconStyle></Style>
+    <Placemark>
+      <name>${title}</name>
+      <styleUrl>#trail</styleUrl>
+      <ExtendedData>
+${extendedData}
+      </ExtendedData>
+      <LineString>
+        <tessellate>1</tessellate>
+        <coordinates>${trailCoordinates}</coordinates>
+      </LineString>
+    </Placemark>
+${placemarks}
+  </Document>
+</kml>
+`;
+}
@@ -0,0 +1,171 @@
+import { eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { haversineDistance } from './geo.js';
+
+type StatsTrip = typeof schema.trips.$inferSelect & {
+  locationUpdates: (typeof schema.locationUpdates.$inferSelect)[];
+};
+
+// Slower than this between two fixes counts as stopped (m/s, about 1 km/h)
+const MOVING_SPEED_THRESHOLD = 0.3;
+
+// Altitude changes smaller than this are treated as GPS noise
+const ELEVATION_NOISE_METERS = 3;
+
+export type TripStats = {
+  distanceMeters: number;
+  durationSeconds: number;
+  movingSeconds: number;
+  stoppedSeconds: number;
+  maxSpeedMps: number | null;
+  averageSpeedMps: number | null;
+  movingSpeedMps: number | null;
+  paceSecondsPerKm: number | null;
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+  pointCount: number;
+};
+
+export const tripStatsSchema = {
+  type: 'object',
+  properties: {
+    distanceMeters: { type: 'number' },
+    durationSeconds: { type: 'number' },
+    movingSeconds: { type: 'number' },
+    stoppedSeconds: { type: 'number' },
+    maxSpeedMps: { type: ['number', 'null'] },
+    averageSpeedMps: { type: ['number', 'null'] },
+    movingSpeedMps: { type: ['number', 'null'] },
+    paceSecondsPerKm: { type: ['number', 'null'] },
+    elevationGainMeters: { type: ['number', 'null'] },
+    elevationLossMeters: { type: ['number', 'null'] },
+    pointCount: { type: 'integer' },
+  },
+};
+
+/**
+ * Elevation gained and lost along a series of altitudes, ignoring changes
+ * below the GPS noise floor. Null when fewer than two fixes had an altitude.
+ */
+function computeElevation(altitudes: number[]): { gain: number; loss: number } | null {
+  if (altitudes.length < 2) return null;
+
+  let gain = 0;
+  let loss = 0;
+  let reference = altitudes[0];
+
+  for (const altitude of altitudes.slice(1)) {
+    const change = altitude - reference;
+    if (Math.abs(change) < ELEVATION_NOISE_METERS) continue;
+    if (change > 0) gain += change;
+    else loss -= change;
+    reference = altitude;
+  }
+
+  return { gain, loss };
+}
+
+/**
+ * Summary of what a trip actually covered, from its start point and the
+ * location updates recorded since.
+ */
+export function computeTripStats(trip: StatsTrip): TripStats {
+  const updates = [...trip.locationUpdates].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+  const points = [
+    { longitude: Number(trip.startLongitude), latitude: Number(trip.startLatitude), time: trip.startTime },
+    ...updates.map((update) => ({
+      longitude: Number(update.longitude),
+      latitude: Number(update.latitude),
+      time: update.timestamp,
+    })),
+  ];
+
+  let distanceMeters = 0;
+  let movingSeconds = 0;
+  let maxSpeedMps: number | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    const meters = haversineDistance(
+      [previous.longitude, previous.latitude],
+      [current.longitude, current.latitude]
+    );
+    const seconds = (current.time.getTime() - previous.time.getTime()) / 1000;
+
+    distanceMeters += meters;
+    if (seconds <= 0) continue;
+
+    const speed = meters / seconds;
+    if (speed >= MOVING_SPEED_THRESHOLD) {
+      movingSeconds += seconds;
+    }
+    maxSpeedMps = Math.max(maxSpeedMps ?? 0, speed);
+  }
+
+  // Speeds reported by the device are more precise than ones derived from fixes
+  for (const update of updates) {
+    if (update.speed !== null) {
+      maxSpeedMps = Math.max(maxSpeedMps ?? 0, update.speed);
+    }
+  }
+
+  const endTime = trip.endTime ?? points[points.length - 1].time;
+  const durationSeconds = Math.max(0, (endTime.getTime() - trip.startTime.getTime()) / 1000);
+  const elevation = computeElevation(
+    updates.map((update) => update.altitude).filter((altitude): altitude is number => altitude !== null)
+  );
+
+  return {
+    distanceMeters,
+    durationSeconds,
+    movingSeconds,
+    stoppedSeconds: Math.max(0, durationSeconds - movingSeconds),
+    maxSpeedMps,
+    averageSpeedMps: durationSeconds > 0 ? distanceMeters / durationSeconds : null,
+    movingSpeedMps: movingSeconds > 0 ? distanceMeters / movingSeconds : null,
+    paceSecondsPerKm: distanceMeters > 0 && movingSeconds > 0 ? movingSeconds / (distanceMeters / 1000) : null,
+    elevationGainMeters: elevation ? elevation.gain : null,
+    elevationLossMeters: elevation ? elevation.loss : null,
+    pointCount: points.length,
+  };
+}
+
+/**
+ * Stats of a page of trips, by trip id. Trips that ended keep their stored
+ * stats; for the others the fixes are loaded and the stats computed, and
+ * stored when the trip has ended since.
+ */
+export async function getTripsStats(
+  app: App,
+  trips: (typeof schema.trips.$inferSelect)[]
+): Promise<Map<string, TripStats>> {
+  const stats = new Map<string, TripStats>();
+  const pending = trips.filter((trip) => {
+    if (trip.stats) stats.set(trip.id, trip.stats);
+    return !trip.stats;
+  });
+
+  if (pending.length === 0) return stats;
+
+  const updates = await app.db.query.locationUpdates.findMany({
+    where: inArray(schema.locationUpdates.tripId, pending.map((trip) => trip.id)),
+  });
+
+  for (const trip of pending) {
+    const tripStats = computeTripStats({
+      ...trip,
+      locationUpdates: updates.filter((update) => update.tripId === trip.id),
+    });
+    stats.set(trip.id, tripStats);
+
+    if (trip.endTime) {
+      await app.db.update(schema.trips).set({ stats: tripStats }).where(eq(schema.trips.id, trip.id));
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,74 @@
+export const TRIP_STATUSES = [
+  'active',
+  'paused',
+  'sos',
+  'overdue',
+  'missed_checkin',
+  'possibly_lost',
+  'cancelled',
+  'completed',
+  'resolved',
+] as const;
+
+export type TripStatus = (typeof TRIP_STATUSES)[number];
+
+// Statuses each status may move to. Cancelled, completed and resolved trips
+// are finished and never change again.
+const TRIP_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  active: ['paused', 'sos', 'overdue', 'missed_checkin', 'possibly_lost', 'cancelled', 'completed'],
+  paused: ['active', 'sos', 'overdue', 'cancelled', 'completed'],
+  missed_checkin: ['active', 'possibly_lost', 'sos', 'overdue', 'cancelled', 'completed', 'resolved'],
+  possibly_lost: ['active', 'sos', 'overdue', 'cancelled', 'completed', 'resolved'],
+  overdue: ['sos', 'completed', 'resolved'],
+  // Back to active when the user calls off a false alarm, or resolved once
+  // the emergency is over. Both need the PIN or password, so a stolen phone
+  // cannot end an SOS
+  sos: ['active', 'resolved'],
+  cancelled: [],
+  completed: [],
+  resolved: [],
+};
+
+export function isTripFinished(status: string): boolean {
+  return TRIP_TRANSITIONS[status as TripStatus]?.length === 0;
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return (TRIP_TRANSITIONS[from as TripStatus] ?? []).includes(to as TripStatus);
+}
+
+// Statuses that accept location updates. Every other status except paused
+// is a finished trip.
+export const TRACKING_TRIP_STATUSES: TripStatus[] = ['active', 'sos', 'overdue', 'missed_checkin', 'possibly_lost'];
+
+export function isTripTracking(status: string): boolean {
+  return TRACKING_TRIP_STATUSES.includes(status as TripStatus);
+}
+
+// Statuses the watchdog checks for a passed return time: those that can
+// become overdue, plus overdue itself for the follow-up alerts
+export const OVERDUE_CHECK_STATUSES = TRIP_STATUSES.filter(
+  (status) => status === 'overdue' || canTransition(status, 'overdue')
+);
+
+// Alert statuses that escalate through contact tiers until acknowledged
+export const ESCALATING_TRIP_STATUSES: TripStatus[] = ['overdue', 'missed_checkin', 'possibly_lost'];
+
+/**
+ * Status after a new fix arrives. Checking in clears a missed check-in, and
+ * the off-route state follows the planned route. Overdue trips stay overdue.
+ */
+export function getStatusAfterFix(status: string, possiblyLost: boolean | null): string {
+  let next = status === 'missed_checkin' ? 'active' : status;
+
+  if (possiblyLost === true && next === 'active') next = 'possibly_lost';
+  if (possiblyLost === false && next === 'possibly_lost') next = 'active';
+
+  return next;
+}
+
+export function getFixTransitionReason(from: string, to: string): string {
+  if (to === 'possibly_lost') return 'Off the planned route';
+  if (from === 'possibly_lost') return 'Back on the planned route';
+  return 'Checked in';
+}
@@ -0,0 +1,68 @@
+import { and, eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import { publishTripStatusChange } from './trip-events.js';
+
+export const tripTransitionsResponseSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      fromStatus: { type: ['string', 'null'] },
+      toStatus: { type: 'string' },
+      reason: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+};
+
+/**
+ * Record a status change in the trip's transition history and notify live
+ * subscribers. Does nothing when the status did not change.
+ */
+export async function recordTripTransition(
+  app: App,
+  tripId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  reason: string
+) {
+  if (fromStatus === toStatus) return;
+
+  await app.db.insert(schema.tripStatusTransitions).values({
+    tripId,
+    fromStatus,
+    toStatus,
+    reason,
+  });
+
+  if (fromStatus !== null) {
+    publishTripStatusChange(tripId, fromStatus, toStatus, reason);
+  }
+}
+
+/**
+ * Move a trip to a new status and record the transition. The update only
+ * applies while the trip is still in the status it was read with, so returns
+ * null when a concurrent request changed it first.
+ */
+export async function transitionTrip(
+  app: App,
+  trip: typeof schema.trips.$inferSelect,
+  status: string,
+  reason: string,
+  columns: Partial<typeof schema.trips.$inferInsert> = {}
+): Promise<typeof schema.trips.$inferSelect | null> {
+  const updated = await app.db.update(schema.trips)
+    .set({ ...columns, status })
+    .where(and(
+      eq(schema.trips.id, trip.id),
+      eq(schema.trips.status, trip.status)
+    ))
+    .returning();
+
+  if (updated.length === 0) return null;
+
+  await recordTripTransition(app, trip.id, trip.status, status, reason);
+  return updated[0];
+}
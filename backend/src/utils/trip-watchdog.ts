@@ -0,0 +1,343 @@
+import { eq, and, inArray, lte, lt, gt, or, isNull, isNotNull, count, sql } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import type { App } from '../index.js';
+import {
+  buildOverdueMessage,
+  buildMissedCheckInMessage,
+  buildPossiblyLostMessage,
+  buildEscalationMessage,
+  buildLocationDigestMessage,
+  formatDecimal,
+} from './sms.js';
+import { OVERDUE_CHECK_STATUSES, ESCALATING_TRIP_STATUSES, TRACKING_TRIP_STATUSES } from './trip-status.js';
+import { getLastFix } from './location-fix.js';
+import { describePlannedRoute } from './planned-routes.js';
+import { OFF_ROUTE_DISTANCE_METERS } from './route-deviation.js';
+import {
+  withTripContacts,
+  notifyTripContacts,
+  getAlertRecipients,
+  getNextEscalationTier,
+  getLastAlertedAt,
+  isAlertAcknowledged,
+} from './trip-contacts.js';
+import { recordTripTransition } from './trip-transitions.js';
+import type { SmsMessage } from './sms-templates.js';
+import { sendQueuedNotifications } from './notifications.js';
+import { DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES } from './location-update-policy.js';
+
+const CHECK_INTERVAL_MS = Number(process.env.TRIP_WATCHDOG_INTERVAL_MS) || 60 * 1000;
+
+// Minutes between successive overdue alerts for the same trip
+const OVERDUE_ESCALATION_MINUTES = Number(process.env.OVERDUE_ESCALATION_MINUTES) || 30;
+
+// Number of overdue alerts sent before the watchdog stops escalating
+const MAX_OVERDUE_ALERTS = 3;
+
+// Minutes allowed past a trip's check-in interval before the check-in counts as missed
+const CHECK_IN_GRACE_MINUTES = Number(process.env.CHECK_IN_GRACE_MINUTES) || 10;
+
+// Minutes a contact tier has to acknowledge an alert before the next tier is alerted
+const TIER_ESCALATION_MINUTES = Number(process.env.TIER_ESCALATION_MINUTES) || 15;
+
+/**
+ * Periodically scans open trips and alerts emergency contacts when a hiker
+ * has not returned by their expected return time or has missed a check-in,
+ * without any action from the hiker's phone. Each run also sends location
+ * digests that are due and queued notifications, including retries of
+ * earlier sends that failed.
+ */
+export function startTripWatchdog(app: App) {
+  let running = false;
+
+  // Each step runs on its own, so one that keeps failing does not hold
+  // back the others
+  const steps: [string, (app: App) => Promise<unknown>][] = [
+    ['checkOverdueTrips', checkOverdueTrips],
+    ['checkMissedCheckIns', checkMissedCheckIns],
+    ['escalateUnacknowledgedAlerts', escalateUnacknowledgedAlerts],
+    ['sendLocationDigests', sendLocationDigests],
+    ['sendQueuedNotifications', sendQueuedNotifications],
+  ];
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const [step, run] of steps) {
+        try {
+          await run(app);
+        } catch (error) {
+          app.logger.error({ err: error, step }, 'Trip watchdog step failed');
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, CHECK_INTERVAL_MS);
+  timer.unref();
+
+  app.logger.info({ intervalMs: CHECK_INTERVAL_MS }, 'Trip watchdog started');
+  return timer;
+}
+
+// Each trip is handled on its own, so one with bad data, such as an
+// unreadable route, does not stop the alerts of every other trip
+function logTripFailure(app: App, step: string, trip: { id: string; userId: string }, error: unknown) {
+  app.logger.error({ err: error, step, userId: trip.userId, tripId: trip.id }, 'Trip watchdog step failed for a trip');
+}
+
+function buildTripAlertMessage(
+  trip: typeof schema.trips.$inferSelect & { plannedRoute?: typeof schema.plannedRoutes.$inferSelect | null }
+): SmsMessage {
+  if (trip.status === 'possibly_lost') {
+    return buildPossiblyLostMessage(
+      trip.activityType,
+      OFF_ROUTE_DISTANCE_METERS,
+      trip.offRouteSince ?? trip.lastLocationUpdate,
+      describePlannedRoute(trip.plannedRoute ?? null),
+      formatDecimal(trip.lastLatitude),
+      formatDecimal(trip.lastLongitude),
+      trip.lastLocationUpdate,
+      getLastFix(trip)
+    );
+  }
+
+  if (trip.status === 'missed_checkin') {
+    return buildMissedCheckInMessage(
+      trip.activityType,
+      trip.checkInIntervalMinutes,
+      formatDecimal(trip.lastLatitude),
+      formatDecimal(trip.lastLongitude),
+      trip.lastLocationUpdate,
+      getLastFix(trip)
+    );
+  }
+
+  return buildOverdueMessage(
+    trip.overdueAlertCount,
+    trip.activityType,
+    trip.expectedReturnTime,
+    trip.clothingDescription,
+    trip.vehicleDescription,
+    formatDecimal(trip.lastLatitude),
+    formatDecimal(trip.lastLongitude),
+    trip.lastLocationUpdate,
+    getLastFix(trip)
+  );
+}
+
+export async function checkOverdueTrips(app: App) {
+  const now = new Date();
+  const escalationCutoff = new Date(now.getTime() - OVERDUE_ESCALATION_MINUTES * 60 * 1000);
+
+  const overdueTrips = await app.db.query.trips.findMany({
+    where: and(
+      inArray(schema.trips.status, OVERDUE_CHECK_STATUSES),
+      lte(schema.trips.expectedReturnTime, now),
+      lt(schema.trips.overdueAlertCount, MAX_OVERDUE_ALERTS),
+      or(
+        isNull(schema.trips.lastOverdueAlertAt),
+        lte(schema.trips.lastOverdueAlertAt, escalationCutoff)
+      )
+    ),
+    with: withTripContacts,
+  });
+
+  for (const trip of overdueTrips) {
+    try {
+      const alertNumber = trip.overdueAlertCount + 1;
+      const alertRaisedAt = trip.status === 'overdue' ? trip.alertRaisedAt : now;
+
+      // Claim this alert so a concurrent run cannot send it twice
+      const claimed = await app.db.update(schema.trips)
+        .set({
+          status: 'overdue',
+          overdueAlertCount: alertNumber,
+          lastOverdueAlertAt: now,
+          alertRaisedAt,
+        })
+        .where(and(
+          eq(schema.trips.id, trip.id),
+          eq(schema.trips.status, trip.status),
+          eq(schema.trips.overdueAlertCount, trip.overdueAlertCount)
+        ))
+        .returning();
+
+      if (claimed.length === 0) continue;
+
+      await recordTripTransition(app, trip.id, trip.status, 'overdue', 'Not back by the expected return time');
+
+      const recipients = getAlertRecipients(trip.emergencyContacts, alertRaisedAt);
+
+      app.logger.warn(
+        { userId: trip.userId, tripId: trip.id, alertNumber, recipients: recipients.length },
+        'Trip overdue, alerting emergency contacts'
+      );
+
+      await notifyTripContacts(app, recipients, buildTripAlertMessage(claimed[0]), {
+        eventType: 'overdue',
+        alert: true,
+        shareToken: trip.shareToken,
+      });
+    } catch (error) {
+      logTripFailure(app, 'checkOverdueTrips', trip, error);
+    }
+  }
+}
+
+export async function checkMissedCheckIns(app: App) {
+  const missedTrips = await app.db.query.trips.findMany({
+    where: and(
+      eq(schema.trips.status, 'active'),
+      isNotNull(schema.trips.checkInIntervalMinutes),
+      sql`${schema.trips.lastCheckInAt} + (${schema.trips.checkInIntervalMinutes} + ${CHECK_IN_GRACE_MINUTES}) * interval '1 minute' <= now()`
+    ),
+    with: withTripContacts,
+  });
+
+  for (const trip of missedTrips) {
+    try {
+      // Only flip trips that have not checked in since they were selected
+      const claimed = await app.db.update(schema.trips)
+        .set({
+          status: 'missed_checkin',
+          alertRaisedAt: new Date(),
+        })
+        .where(and(
+          eq(schema.trips.id, trip.id),
+          eq(schema.trips.status, 'active'),
+          eq(schema.trips.lastCheckInAt, trip.lastCheckInAt)
+        ))
+        .returning();
+
+      if (claimed.length === 0) continue;
+
+      await recordTripTransition(
+        app,
+        trip.id,
+        trip.status,
+        'missed_checkin',
+        `No check-in within ${trip.checkInIntervalMinutes} min`
+      );
+
+      const recipients = getAlertRecipients(trip.emergencyContacts, null);
+
+      app.logger.warn(
+        { userId: trip.userId, tripId: trip.id, checkInIntervalMinutes: trip.checkInIntervalMinutes },
+        'Trip missed check-in, alerting emergency contacts'
+      );
+
+      await notifyTripContacts(app, recipients, buildTripAlertMessage(claimed[0]), {
+        eventType: 'missed_checkin',
+        alert: true,
+        shareToken: trip.shareToken,
+      });
+    } catch (error) {
+      logTripFailure(app, 'checkMissedCheckIns', trip, error);
+    }
+  }
+}
+
+export async function escalateUnacknowledgedAlerts(app: App) {
+  const now = Date.now();
+
+  const alertedTrips = await app.db.query.trips.findMany({
+    where: and(
+      inArray(schema.trips.status, ESCALATING_TRIP_STATUSES),
+      isNotNull(schema.trips.alertRaisedAt)
+    ),
+    with: { ...withTripContacts, plannedRoute: true },
+  });
+
+  for (const trip of alertedTrips) {
+    try {
+      const contacts = trip.emergencyContacts;
+      if (isAlertAcknowledged(contacts, trip.alertRaisedAt)) continue;
+
+      const lastAlertedAt = getLastAlertedAt(contacts, trip.alertRaisedAt);
+      if (!lastAlertedAt || now - lastAlertedAt.getTime() < TIER_ESCALATION_MINUTES * 60 * 1000) {
+        continue;
+      }
+
+      const nextTier = getNextEscalationTier(contacts, trip.alertRaisedAt);
+      if (nextTier.length === 0) continue;
+
+      app.logger.warn(
+        { userId: trip.userId, tripId: trip.id, tier: nextTier[0].tier },
+        'Alert not acknowledged, escalating to next contact tier'
+      );
+
+      const message = buildEscalationMessage(buildTripAlertMessage(trip));
+      await notifyTripContacts(app, nextTier, message, {
+        eventType: 'escalation',
+        alert: true,
+        shareToken: trip.shareToken,
+      });
+    } catch (error) {
+      logTripFailure(app, 'escalateUnacknowledgedAlerts', trip, error);
+    }
+  }
+}
+
+/**
+ * Text contacts a summary of the location updates since the last one they
+ * heard about, for trips on the digest policy whose interval has passed.
+ * Nothing is sent when the trip has no new updates.
+ */
+export async function sendLocationDigests(app: App) {
+  const dueTrips = await app.db.query.trips.findMany({
+    where: and(
+      eq(schema.trips.locationUpdatePolicy, 'digest'),
+      inArray(schema.trips.status, TRACKING_TRIP_STATUSES),
+      isNull(schema.trips.endTime),
+      sql`coalesce(${schema.trips.lastLocationNotifiedAt}, ${schema.trips.startTime}) + coalesce(${schema.trips.locationUpdateIntervalMinutes}, ${DEFAULT_LOCATION_UPDATE_INTERVAL_MINUTES}) * interval '1 minute' <= now()`
+    ),
+    with: withTripContacts,
+  });
+
+  for (const trip of dueTrips) {
+    try {
+      const since = trip.lastLocationNotifiedAt ?? trip.startTime;
+
+      // Claim this digest so a concurrent run cannot send it twice
+      const claimed = await app.db.update(schema.trips)
+        .set({ lastLocationNotifiedAt: new Date() })
+        .where(and(
+          eq(schema.trips.id, trip.id),
+          trip.lastLocationNotifiedAt
+            ? eq(schema.trips.lastLocationNotifiedAt, trip.lastLocationNotifiedAt)
+            : isNull(schema.trips.lastLocationNotifiedAt)
+        ))
+        .returning();
+
+      if (claimed.length === 0) continue;
+
+      const [{ updates }] = await app.db
+        .select({ updates: count() })
+        .from(schema.locationUpdates)
+        .where(and(
+          eq(schema.locationUpdates.tripId, trip.id),
+          gt(schema.locationUpdates.timestamp, since)
+        ));
+
+      if (updates === 0) continue;
+
+      app.logger.info({ userId: trip.userId, tripId: trip.id, updates }, 'Sending location digest');
+
+      const message = buildLocationDigestMessage(
+        updates,
+        since,
+        formatDecimal(trip.lastLatitude),
+        formatDecimal(trip.lastLongitude),
+        trip.lastLocationUpdate,
+        getLastFix(trip)
+      );
+      await notifyTripContacts(app, trip.emergencyContacts, message, { eventType: 'location_digest' });
+    } catch (error) {
+      logTripFailure(app, 'sendLocationDigests', trip, error);
+    }
+  }
+}
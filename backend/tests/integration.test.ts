@@ -1,11 +1,13 @@
 import { describe, test, expect } from "bun:test";
-import { api, authenticatedApi, signUpTestUser, expectStatus, connectWebSocket, connectAuthenticatedWebSocket, waitForMessage } from "./helpers";
+import { api, authenticatedApi, signUpTestUser, expectStatus, connectWebSocket, connectAuthenticatedWebSocket, waitForMessage, createTestFile } from "./helpers";
 
 describe("API Integration Tests", () => {
   let authToken: string;
   let testUserId: string;
   let emergencyContactId: string;
   let tripId: string;
+  let shareToken: string;
+  let plannedRouteId: string;
 
   // ========== Auth Setup ==========
   test("Sign up test user", async () => {
@@ -38,6 +40,103 @@ describe("API Integration Tests", () => {
       expect(data.name).toBe("John Doe");
       expect(data.phoneNumber).toBe("+1234567890");
       expect(data.userId).toBeDefined();
+      expect(data.language).toBe("en");
+      expect(data.timezone).toBe("UTC");
+      expect(data.email).toBeNull();
+      expect(data.notificationChannel).toBe("sms");
+    });
+
+    test("Create emergency contact with language and time zone", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Abuela",
+            phoneNumber: "+34600000000",
+            language: "es",
+            timezone: "Europe/Madrid",
+          }),
+        }
+      );
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.language).toBe("es");
+      expect(data.timezone).toBe("Europe/Madrid");
+    });
+
+    test("Create emergency contact with unknown time zone should fail", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Jane Doe",
+            phoneNumber: "+1234567890",
+            timezone: "Mars/Olympus_Mons",
+          }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Create emergency contact notified by SMS and email", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Mary Roe",
+            phoneNumber: "+1555000111",
+            email: "mary@example.com",
+            notificationChannel: "both",
+          }),
+        }
+      );
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.email).toBe("mary@example.com");
+      expect(data.notificationChannel).toBe("both");
+    });
+
+    test("Create emergency contact notified by email without an address should fail", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Jane Doe",
+            phoneNumber: "+1234567890",
+            notificationChannel: "email",
+          }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Create emergency contact with invalid email should fail", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Jane Doe",
+            phoneNumber: "+1234567890",
+            email: "not-an-email",
+          }),
+        }
+      );
+      await expectStatus(res, 400);
     });
 
     test("Create emergency contact without required fields should fail", async () => {
@@ -83,6 +182,38 @@ describe("API Integration Tests", () => {
       expect(data.phoneNumber).toBe("+0987654321");
     });
 
+    test("Switch emergency contact to email notifications", async () => {
+      const res = await authenticatedApi(
+        `/api/emergency-contacts/${emergencyContactId}`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            email: "john@example.com",
+            notificationChannel: "email",
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.email).toBe("john@example.com");
+      expect(data.notificationChannel).toBe("email");
+    });
+
+    test("Remove the email of a contact notified by email should fail", async () => {
+      const res = await authenticatedApi(
+        `/api/emergency-contacts/${emergencyContactId}`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: null }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
     test("Update non-existent emergency contact should fail", async () => {
       const nonExistentId = "00000000-0000-0000-0000-000000000000";
       const res = await authenticatedApi(
@@ -123,9 +254,313 @@ describe("API Integration Tests", () => {
     });
   });
 
+  // ========== Planned Routes ==========
+  describe("Planned Routes", () => {
+    const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>Loop Trail</name><trkseg>
+    <trkpt lat="40.7128" lon="-74.0060"></trkpt>
+    <trkpt lat="40.7580" lon="-73.9855"></trkpt>
+    <trkpt lat="40.7128" lon="-74.0060"></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+    test("Upload planned route as GPX", async () => {
+      const form = new FormData();
+      form.append("file", createTestFile("loop.gpx", gpx, "application/gpx+xml"));
+      const res = await authenticatedApi("/api/planned-routes", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      plannedRouteId = data.id;
+      expect(data.name).toBe("Loop Trail");
+      expect(data.format).toBe("gpx");
+      expect(data.pointCount).toBe(3);
+      expect(data.distanceMeters).toBeGreaterThan(10000);
+    });
+
+    test("Upload planned route as GeoJSON with a custom name", async () => {
+      const geojson = JSON.stringify({
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "LineString",
+          coordinates: [[-74.006, 40.7128], [-73.9855, 40.758]],
+        },
+      });
+      const form = new FormData();
+      form.append("name", "Ridge Walk");
+      form.append("file", createTestFile("ridge.geojson", geojson, "application/geo+json"));
+      const res = await authenticatedApi("/api/planned-routes", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.name).toBe("Ridge Walk");
+      expect(data.format).toBe("geojson");
+
+      const del = await authenticatedApi(`/api/planned-routes/${data.id}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(del, 200);
+    });
+
+    test("Upload planned route as a MultiLineString keeps its parts apart", async () => {
+      const geojson = JSON.stringify({
+        type: "MultiLineString",
+        coordinates: [
+          [[-74.006, 40.7128], [-74.006, 40.7228]],
+          [[-73.9855, 40.758], [-73.9855, 40.768]],
+        ],
+      });
+      const form = new FormData();
+      form.append("file", createTestFile("parts.geojson", geojson, "application/geo+json"));
+      const res = await authenticatedApi("/api/planned-routes", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.pointCount).toBe(4);
+      // Two parts of about 1.1 km each, without the gap between them
+      expect(data.distanceMeters).toBeLessThan(2500);
+
+      const get = await authenticatedApi(`/api/planned-routes/${data.id}`, authToken);
+      await expectStatus(get, 200);
+      const route = await get.json();
+      expect(route.coordinates).toHaveLength(2);
+
+      const del = await authenticatedApi(`/api/planned-routes/${data.id}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(del, 200);
+    });
+
+    test("Upload invalid planned route should fail", async () => {
+      const form = new FormData();
+      form.append("file", createTestFile("route.gpx", "<gpx></gpx>", "application/gpx+xml"));
+      const res = await authenticatedApi("/api/planned-routes", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Upload malformed GeoJSON route should fail", async () => {
+      const geojson = JSON.stringify({ type: "MultiLineString", coordinates: 5 });
+      const form = new FormData();
+      form.append("file", createTestFile("route.geojson", geojson, "application/geo+json"));
+      const res = await authenticatedApi("/api/planned-routes", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Get planned routes", async () => {
+      const res = await authenticatedApi("/api/planned-routes", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data).toHaveLength(1);
+      expect(data[0].id).toBe(plannedRouteId);
+    });
+
+    test("Get planned route with its line", async () => {
+      const res = await authenticatedApi(`/api/planned-routes/${plannedRouteId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.coordinates).toHaveLength(1);
+      expect(data.coordinates[0]).toHaveLength(3);
+      expect(data.coordinates[0][0]).toEqual([-74.006, 40.7128]);
+    });
+
+    test("Get non-existent planned route should fail", async () => {
+      const res = await authenticatedApi("/api/planned-routes/00000000-0000-0000-0000-000000000000", authToken);
+      await expectStatus(res, 404);
+    });
+  });
+
   // ========== Trips ==========
+  describe("Message Templates", () => {
+    test("List message templates", async () => {
+      const res = await authenticatedApi("/api/message-templates", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.gsm7).toBe(false);
+      const sos = data.templates.find((template: any) => template.key === "sos" && template.language === "es");
+      expect(sos.custom).toBe(false);
+      expect(sos.body).toBe(sos.defaultBody);
+      expect(sos.placeholders).toContain("latitude");
+    });
+
+    test("Set custom message template", async () => {
+      const res = await authenticatedApi("/api/message-templates/sos", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "en", body: "HELP needed at {latitude}, {longitude}\nWearing {clothing}" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.custom).toBe(true);
+      expect(data.body).toContain("HELP needed");
+    });
+
+    test("Set message template with unknown placeholder should fail", async () => {
+      const res = await authenticatedApi("/api/message-templates/sos", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "en", body: "HELP {nickname}" }),
+      });
+      await expectStatus(res, 400);
+      const data = await res.json();
+      expect(data.error).toContain("{nickname}");
+    });
+
+    test("Set unknown message template should fail", async () => {
+      const res = await authenticatedApi("/api/message-templates/not_a_template", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "en", body: "Hello" }),
+      });
+      await expectStatus(res, 404);
+    });
+
+    test("Reset message template", async () => {
+      const res = await authenticatedApi("/api/message-templates/sos?language=en", authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(res, 200);
+
+      const list = await authenticatedApi("/api/message-templates", authToken);
+      const data = await list.json();
+      const sos = data.templates.find((template: any) => template.key === "sos" && template.language === "en");
+      expect(sos.custom).toBe(false);
+    });
+
+    test("Turn GSM-7 mode on and off", async () => {
+      for (const gsm7 of [true, false]) {
+        const res = await authenticatedApi("/api/message-settings", authToken, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gsm7 }),
+        });
+        await expectStatus(res, 200);
+        const data = await res.json();
+        expect(data.gsm7).toBe(gsm7);
+      }
+    });
+  });
+
+  describe("Push Tokens", () => {
+    let pushDeviceId: string;
+
+    test("Register push token", async () => {
+      const res = await authenticatedApi("/api/push-tokens", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: "ExponentPushToken[integration-test]", platform: "ios", phoneNumber: "+15551234567" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBeDefined();
+      expect(data.token).toBe("ExponentPushToken[integration-test]");
+      expect(data.platform).toBe("ios");
+      expect(data.phoneNumber).toBe("+15551234567");
+      expect(data.phoneVerifiedAt).toBeNull();
+      pushDeviceId = data.id;
+    });
+
+    test("Verify push device phone with a wrong code should fail", async () => {
+      const res = await authenticatedApi(`/api/push-tokens/${pushDeviceId}/verify-phone`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: "000000" }),
+      });
+      // The texted code is random, so 000000 is wrong except by a one in a million chance
+      await expectStatus(res, 403);
+    });
+
+    test("Verify push device phone with a malformed code should fail", async () => {
+      const res = await authenticatedApi(`/api/push-tokens/${pushDeviceId}/verify-phone`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: "12ab" }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Register same push token again updates the device", async () => {
+      const res = await authenticatedApi("/api/push-tokens", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: "ExponentPushToken[integration-test]", platform: "ios" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBe(pushDeviceId);
+      expect(data.phoneNumber).toBeNull();
+    });
+
+    test("Verify push device phone without a phone number should fail", async () => {
+      const res = await authenticatedApi(`/api/push-tokens/${pushDeviceId}/verify-phone`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: "123456" }),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Register push token again does not text a new code straight away", async () => {
+      const res = await authenticatedApi("/api/push-tokens", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: "ExponentPushToken[integration-test]", platform: "ios", phoneNumber: "+15551234567" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.phoneNumber).toBe("+15551234567");
+      expect(new Date(data.phoneCodeRetryAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    test("List push tokens", async () => {
+      const res = await authenticatedApi("/api/push-tokens", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.some((device: any) => device.id === pushDeviceId)).toBe(true);
+    });
+
+    test("Register push token with unknown platform should fail", async () => {
+      const res = await authenticatedApi("/api/push-tokens", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: "ExponentPushToken[other]", platform: "symbian" }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Remove push token", async () => {
+      const res = await authenticatedApi(`/api/push-tokens/${pushDeviceId}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.success).toBe(true);
+    });
+
+    test("Remove non-existent push token should fail", async () => {
+      const res = await authenticatedApi(`/api/push-tokens/${pushDeviceId}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(res, 404);
+    });
+  });
+
   describe("Trips", () => {
     let secondaryContactId: string;
+    let backupContactId: string;
 
     test("Create secondary emergency contact for trip", async () => {
       const res = await authenticatedApi(
@@ -145,34 +580,155 @@ describe("API Integration Tests", () => {
       secondaryContactId = data.id;
     });
 
+    test("Create backup emergency contact for trip", async () => {
+      const res = await authenticatedApi(
+        "/api/emergency-contacts",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Backup Contact",
+            phoneNumber: "+1222222222",
+          }),
+        }
+      );
+      await expectStatus(res, 201);
+      const data = await res.json();
+      backupContactId = data.id;
+    });
+
     test("Start a trip", async () => {
       const res = await authenticatedApi("/api/trips/start", authToken, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          emergencyContactId: secondaryContactId,
+          emergencyContacts: [
+            { id: secondaryContactId, tier: 1 },
+            { id: backupContactId, tier: 2 },
+          ],
           activityType: "hiking",
           clothingDescription: "warm jacket and boots",
           vehicleDescription: "blue sedan",
           latitude: "40.7128",
           longitude: "-74.0060",
+          expectedReturnTime: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+          checkInIntervalMinutes: 60,
+          plannedRouteId,
         }),
       });
       await expectStatus(res, 201);
       const data = await res.json();
       tripId = data.id;
+      shareToken = data.shareToken;
       expect(data.id).toBeDefined();
       expect(data.activityType).toBe("hiking");
       expect(data.status).toBeDefined();
       expect(data.lastLatitude).toBe("40.7128");
       expect(data.lastLongitude).toBe("-74.0060");
-      expect(data.emergencyContact).toBeDefined();
+      expect(data.emergencyContacts).toHaveLength(2);
+      expect(data.emergencyContacts[0].id).toBe(secondaryContactId);
+      expect(data.emergencyContacts[0].tier).toBe(1);
+      expect(data.emergencyContacts[1].tier).toBe(2);
+      expect(data.expectedReturnTime).toBeDefined();
+      expect(data.checkInIntervalMinutes).toBe(60);
+      expect(data.locationUpdatePolicy).toBe("every");
+      expect(data.shareToken).toBeDefined();
+      expect(data.plannedRoute.id).toBe(plannedRouteId);
+      expect(data.plannedRoute.name).toBe("Loop Trail");
     });
 
-    test("Start trip without required fields should fail", async () => {
-      const res = await authenticatedApi("/api/trips/start", authToken, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
+    test("Delete emergency contact on the open trip should fail", async () => {
+      const res = await authenticatedApi(`/api/emergency-contacts/${backupContactId}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Delete planned route of the open trip should fail", async () => {
+      const res = await authenticatedApi(`/api/planned-routes/${plannedRouteId}`, authToken, {
+        method: "DELETE",
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Start trip with too short check-in interval should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+          checkInIntervalMinutes: 1,
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Start trip with expected return time in the past should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+          expectedReturnTime: new Date(Date.now() - 60 * 1000).toISOString(),
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Start trip with the same contact twice should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }, { id: secondaryContactId, tier: 2 }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Start trip with unknown emergency contact should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: "00000000-0000-0000-0000-000000000000" }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Start trip with unknown planned route should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+          plannedRouteId: "00000000-0000-0000-0000-000000000000",
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Start trip without required fields should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           activityType: "hiking",
           latitude: "40.7128",
@@ -181,6 +737,24 @@ describe("API Integration Tests", () => {
       await expectStatus(res, 400);
     });
 
+    test("Start a second trip while one is open should fail", async () => {
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "biking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+        }),
+      });
+      await expectStatus(res, 409);
+      const data = await res.json();
+      expect(data.error).toBeDefined();
+      expect(data.trip.id).toBe(tripId);
+      expect(data.trip.status).toBe("active");
+    });
+
     test("Get active trip", async () => {
       const res = await authenticatedApi("/api/trips/active", authToken);
       await expectStatus(res, 200);
@@ -197,8 +771,59 @@ describe("API Integration Tests", () => {
       const res = await authenticatedApi("/api/trips", authToken);
       await expectStatus(res, 200);
       const data = await res.json();
-      expect(Array.isArray(data)).toBe(true);
-      expect(data.length).toBeGreaterThan(0);
+      expect(Array.isArray(data.trips)).toBe(true);
+      expect(data.trips.length).toBeGreaterThan(0);
+      expect(data.trips[0].stats).toBeDefined();
+      expect(typeof data.trips[0].stats.distanceMeters).toBe("number");
+      expect(data.nextCursor).toBeNull();
+    });
+
+    test("Get trips one page at a time", async () => {
+      const first = await authenticatedApi("/api/trips?limit=1", authToken);
+      await expectStatus(first, 200);
+      const firstPage = await first.json();
+      expect(firstPage.trips.length).toBe(1);
+
+      if (firstPage.nextCursor) {
+        const second = await authenticatedApi(
+          `/api/trips?limit=1&cursor=${encodeURIComponent(firstPage.nextCursor)}`,
+          authToken
+        );
+        await expectStatus(second, 200);
+        const secondPage = await second.json();
+        expect(secondPage.trips.length).toBe(1);
+        expect(secondPage.trips[0].id).not.toBe(firstPage.trips[0].id);
+      }
+    });
+
+    test("Filter trips by status, activity type and date range", async () => {
+      const res = await authenticatedApi(
+        `/api/trips?status=active,overdue&activityType=hiking&from=${encodeURIComponent(new Date(Date.now() - 60 * 60 * 1000).toISOString())}&sort=oldest`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.trips.some((trip: any) => trip.id === tripId)).toBe(true);
+      for (const trip of data.trips) {
+        expect(["active", "overdue"]).toContain(trip.status);
+        expect(trip.activityType).toBe("hiking");
+      }
+
+      const empty = await authenticatedApi("/api/trips?status=completed&to=2000-01-01T00:00:00Z", authToken);
+      await expectStatus(empty, 200);
+      const emptyData = await empty.json();
+      expect(emptyData.trips).toEqual([]);
+    });
+
+    test("Get trips with an invalid cursor should fail", async () => {
+      const res = await authenticatedApi("/api/trips?cursor=not-a-cursor", authToken);
+      await expectStatus(res, 400);
+    });
+
+    test("Get trips with a cursor that has a malformed id should fail", async () => {
+      const cursor = Buffer.from(JSON.stringify([new Date().toISOString(), "not-a-uuid"])).toString("base64url");
+      const res = await authenticatedApi(`/api/trips?cursor=${cursor}`, authToken);
+      await expectStatus(res, 400);
     });
 
     test("Update trip location", async () => {
@@ -221,6 +846,50 @@ describe("API Integration Tests", () => {
       expect(data.lastLongitude).toBe("-73.9855");
     });
 
+    test("Update trip location with GPS metadata", async () => {
+      const res = await authenticatedApi(
+        `/api/trips/${tripId}/location`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            latitude: "40.7580",
+            longitude: "-73.9855",
+            accuracy: 12.5,
+            altitude: 1520,
+            speed: 1.2,
+            heading: 270,
+            batteryLevel: 0.45,
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.lastAccuracy).toBe(12.5);
+      expect(data.lastAltitude).toBe(1520);
+      expect(data.lastSpeed).toBe(1.2);
+      expect(data.lastHeading).toBe(270);
+      expect(data.lastBatteryLevel).toBe(0.45);
+    });
+
+    test("Update trip location with invalid battery level should fail", async () => {
+      const res = await authenticatedApi(
+        `/api/trips/${tripId}/location`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            latitude: "40.7580",
+            longitude: "-73.9855",
+            batteryLevel: 45,
+          }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
     test("Update non-existent trip location should fail", async () => {
       const nonExistentId = "00000000-0000-0000-0000-000000000000";
       const res = await authenticatedApi(
@@ -238,84 +907,958 @@ describe("API Integration Tests", () => {
       await expectStatus(res, 404);
     });
 
-    test("Send SOS alert for trip", async () => {
-      const res = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+    test("Set trip notification policy", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/notification-policy`, authToken, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          latitude: "40.7500",
-          longitude: "-73.9900",
-        }),
+        body: JSON.stringify({ locationUpdatePolicy: "throttle" }),
       });
       await expectStatus(res, 200);
       const data = await res.json();
       expect(data.id).toBe(tripId);
-      expect(data.status).toBeDefined();
+      expect(data.locationUpdatePolicy).toBe("throttle");
+      expect(data.locationUpdateIntervalMinutes).toBe(30);
     });
 
-    test("Send SOS alert for non-existent trip should fail", async () => {
-      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+    test("Location updates are not texted on the status change policy", async () => {
+      const countLocationTexts = async () => {
+        const res = await authenticatedApi(`/api/trips/${tripId}/notifications`, authToken);
+        const data = await res.json();
+        return data.notifications.filter((notification: any) => notification.eventType === "location_update").length;
+      };
+
+      const policyRes = await authenticatedApi(`/api/trips/${tripId}/notification-policy`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locationUpdatePolicy: "status_change", locationUpdateIntervalMinutes: 15 }),
+      });
+      await expectStatus(policyRes, 200);
+      const policy = await policyRes.json();
+      expect(policy.locationUpdateIntervalMinutes).toBeNull();
+
+      const before = await countLocationTexts();
+      const res = await authenticatedApi(`/api/trips/${tripId}/location`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ latitude: "40.7580", longitude: "-73.9855" }),
+      });
+      await expectStatus(res, 200);
+      expect(await countLocationTexts()).toBe(before);
+
+      const resetRes = await authenticatedApi(`/api/trips/${tripId}/notification-policy`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locationUpdatePolicy: "every" }),
+      });
+      await expectStatus(resetRes, 200);
+    });
+
+    test("Set unknown trip notification policy should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/notification-policy`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locationUpdatePolicy: "hourly" }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Set notification policy for non-existent trip should fail", async () => {
+      const res = await authenticatedApi("/api/trips/00000000-0000-0000-0000-000000000000/notification-policy", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locationUpdatePolicy: "every" }),
+      });
+      await expectStatus(res, 404);
+    });
+
+    test("Upload location batch with device timestamps", async () => {
+      const now = Date.now();
       const res = await authenticatedApi(
-        `/api/trips/${nonExistentId}/sos`,
+        `/api/trips/${tripId}/locations`,
         authToken,
         {
-          method: "PUT",
+          method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            latitude: "40.7128",
-            longitude: "-74.0060",
+            locations: [
+              { latitude: "40.7600", longitude: "-73.9800", timestamp: new Date(now).toISOString() },
+              { latitude: "40.7590", longitude: "-73.9810", timestamp: new Date(now - 60000).toISOString() },
+            ],
           }),
         }
       );
-      await expectStatus(res, 404);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.accepted).toBe(2);
+      expect(data.duplicates).toBe(0);
+      expect(data.lastLatitude).toBe("40.7600");
+      expect(new Date(data.lastLocationUpdate).getTime()).toBe(now);
     });
 
-    test("Complete trip", async () => {
+    test("Replayed and older location fixes do not move the trip", async () => {
+      const body = JSON.stringify({
+        locations: [
+          { latitude: "40.7400", longitude: "-73.9900", timestamp: new Date(Date.now() - 600000).toISOString() },
+        ],
+      });
+
+      const res = await authenticatedApi(`/api/trips/${tripId}/locations`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.accepted).toBe(1);
+      expect(data.lastLatitude).toBe("40.7600");
+
+      const replay = await authenticatedApi(`/api/trips/${tripId}/locations`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      await expectStatus(replay, 200);
+      const replayData = await replay.json();
+      expect(replayData.accepted).toBe(0);
+      expect(replayData.duplicates).toBe(1);
+    });
+
+    test("Upload location batch with future timestamp should fail", async () => {
       const res = await authenticatedApi(
-        `/api/trips/${tripId}/complete`,
+        `/api/trips/${tripId}/locations`,
         authToken,
         {
-          method: "PUT",
+          method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({}),
+          body: JSON.stringify({
+            locations: [
+              { latitude: "40.7600", longitude: "-73.9800", timestamp: new Date(Date.now() + 3600000).toISOString() },
+            ],
+          }),
         }
       );
-      await expectStatus(res, 200);
-      const data = await res.json();
-      expect(data.id).toBe(tripId);
-      expect(data.endTime).toBeDefined();
-      expect(data.status).toBeDefined();
+      await expectStatus(res, 400);
     });
 
-    test("Complete non-existent trip should fail", async () => {
-      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+    test("Upload empty location batch should fail", async () => {
       const res = await authenticatedApi(
-        `/api/trips/${nonExistentId}/complete`,
+        `/api/trips/${tripId}/locations`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ locations: [] }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Stream trip updates over WebSocket", async () => {
+      const ws = await connectAuthenticatedWebSocket(`/ws/trips/${tripId}`, authToken);
+      const next = waitForMessage(ws);
+      const res = await authenticatedApi(
+        `/api/trips/${tripId}/location`,
         authToken,
         {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({}),
+          body: JSON.stringify({
+            latitude: "40.7580",
+            longitude: "-73.9855",
+          }),
         }
       );
-      await expectStatus(res, 404);
+      await expectStatus(res, 200);
+      const event = JSON.parse(await next);
+      ws.close();
+      expect(event.type).toBe("location");
+      expect(event.tripId).toBe(tripId);
+      expect(event.latitude).toBe("40.7580");
     });
-  });
 
-  // ========== Authentication Tests ==========
-  describe("Authentication", () => {
-    test("Accessing emergency contacts without auth should fail", async () => {
-      const res = await api("/api/emergency-contacts");
-      await expectStatus(res, 401);
+    test("Stream trip updates with share token", async () => {
+      const ws = await connectWebSocket(`/ws/trips/${tripId}`);
+      ws.send(shareToken);
+      const data = JSON.parse(await waitForMessage(ws));
+      ws.close();
+      expect(data.type).toBe("authenticated");
+      expect(data.tripId).toBe(tripId);
     });
 
-    test("Accessing trips without auth should fail", async () => {
-      const res = await api("/api/trips");
-      await expectStatus(res, 401);
+    test("Stream trip updates with invalid token should fail", async () => {
+      const ws = await connectWebSocket(`/ws/trips/${tripId}`);
+      ws.send("invalid-token");
+      const data = JSON.parse(await waitForMessage(ws));
+      ws.close();
+      expect(data.error).toBeDefined();
     });
 
-    test("Accessing active trip without auth should fail", async () => {
-      const res = await api("/api/trips/active");
+    test("Stream non-existent trip should fail", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+      const ws = await connectWebSocket(`/ws/trips/${nonExistentId}`);
+      ws.send(authToken);
+      const data = JSON.parse(await waitForMessage(ws));
+      ws.close();
+      expect(data.error).toBe("Trip not found");
+    });
+
+    test("Get shared trip without login", async () => {
+      const res = await api(`/api/share/${shareToken}`);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.activityType).toBe("hiking");
+      expect(data.lastLatitude).toBe("40.7580");
+      expect(data.plannedRoute.description).toBe("Loop Trail, 11 km");
+      expect(Array.isArray(data.trail)).toBe(true);
+      expect(data.trail.length).toBeGreaterThan(0);
+    });
+
+    test("Get shared trip page without login", async () => {
+      const res = await api(`/share/${shareToken}`);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("text/html");
+    });
+
+    test("Get shared trip with unknown token should fail", async () => {
+      const res = await api("/api/share/00000000-0000-0000-0000-000000000000");
+      await expectStatus(res, 404);
+    });
+
+    test("Pause and resume a trip", async () => {
+      const pause = await authenticatedApi(`/api/trips/${tripId}/pause`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: "Camping overnight" }),
+      });
+      await expectStatus(pause, 200);
+      const paused = await pause.json();
+      expect(paused.status).toBe("paused");
+      const pausedAt = Date.now();
+      expect(paused.endTime).toBeNull();
+
+      const before = await authenticatedApi("/api/trips/active", authToken);
+      const lastFix = (await before.json()).lastLocationUpdate;
+
+      const update = await authenticatedApi(`/api/trips/${tripId}/location`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ latitude: "40.7580", longitude: "-73.9855" }),
+      });
+      await expectStatus(update, 400);
+
+      const pauseAgain = await authenticatedApi(`/api/trips/${tripId}/pause`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(pauseAgain, 409);
+      const conflict = await pauseAgain.json();
+      expect(conflict.status).toBe("paused");
+
+      const resume = await authenticatedApi(`/api/trips/${tripId}/resume`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(resume, 200);
+      const resumed = await resume.json();
+      expect(resumed.status).toBe("active");
+
+      // Resuming restarts the check-in interval but keeps the time of the last fix
+      const active = await authenticatedApi("/api/trips/active", authToken);
+      const activeTrip = await active.json();
+      expect(new Date(activeTrip.lastCheckInAt).getTime()).toBeGreaterThan(pausedAt);
+      expect(activeTrip.lastLocationUpdate).toBe(lastFix);
+    });
+
+    test("Resume a trip that is not paused should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/resume`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Send SOS alert for trip", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: "40.7500",
+          longitude: "-73.9900",
+        }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBe(tripId);
+      expect(data.status).toBeDefined();
+      expect(data.notifications).toHaveLength(data.emergencyContacts.length);
+      expect(data.notifications[0].eventType).toBe("sos");
+    });
+
+    test("Send SOS alert twice should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: "40.7500",
+          longitude: "-73.9900",
+        }),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Set safety PIN", async () => {
+      const res = await authenticatedApi("/api/safety-pin", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "2468", password: "TestPassword123!" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.hasPin).toBe(true);
+
+      const check = await authenticatedApi("/api/safety-pin", authToken);
+      await expectStatus(check, 200);
+      const checkData = await check.json();
+      expect(checkData.hasPin).toBe(true);
+    });
+
+    test("Change safety PIN without the current PIN should fail", async () => {
+      const res = await authenticatedApi("/api/safety-pin", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "1111" }),
+      });
+      await expectStatus(res, 403);
+    });
+
+    test("Set invalid safety PIN should fail", async () => {
+      const res = await authenticatedApi("/api/safety-pin", authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "12ab" }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Cancel SOS without PIN or password should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Cancel SOS with wrong PIN should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "1357" }),
+      });
+      await expectStatus(res, 403);
+    });
+
+    test("Cancel SOS with PIN", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "2468" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.status).toBe("active");
+      expect(data.notifiedContacts).toBe(2);
+
+      const again = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "2468" }),
+      });
+      await expectStatus(again, 409);
+    });
+
+    test("Cancel SOS with password", async () => {
+      const sos = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: "40.7510",
+          longitude: "-73.9910",
+        }),
+      });
+      await expectStatus(sos, 200);
+
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password: "TestPassword123!" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.status).toBe("active");
+    });
+
+    test("Send SOS alert again after a false alarm", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: "40.7520",
+          longitude: "-73.9920",
+        }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.status).toBe("sos");
+    });
+
+    test("Complete a trip during an SOS should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/complete`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 409);
+      const data = await res.json();
+      expect(data.status).toBe("sos");
+    });
+
+    test("Resolve a trip during an SOS without PIN or password should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/resolve`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Cancel SOS before completing the trip", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "2468", reason: "Found the trail again" }),
+      });
+      await expectStatus(res, 200);
+    });
+
+    test("Get trip with ordered location updates", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBe(tripId);
+      expect(data.totalPoints).toBe(data.locationUpdates.length);
+      expect(data.locationUpdates.length).toBeGreaterThan(2);
+      const times = data.locationUpdates.map((update: any) => new Date(update.timestamp).getTime());
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+
+      const sampled = await authenticatedApi(`/api/trips/${tripId}?maxPoints=2`, authToken);
+      await expectStatus(sampled, 200);
+      const sampledData = await sampled.json();
+      expect(sampledData.locationUpdates[0].id).toBe(data.locationUpdates[0].id);
+      expect(sampledData.locationUpdates[sampledData.locationUpdates.length - 1].id)
+        .toBe(data.locationUpdates[data.locationUpdates.length - 1].id);
+      expect(sampledData.locationUpdates.length).toBeLessThan(data.locationUpdates.length);
+
+      // A fix recorded earlier but uploaded now is still new to the client
+      const late = await authenticatedApi(`/api/trips/${tripId}/locations`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          locations: [
+            { latitude: "40.7450", longitude: "-73.9950", timestamp: new Date(Date.now() - 300000).toISOString() },
+          ],
+        }),
+      });
+      await expectStatus(late, 200);
+
+      const incremental = await authenticatedApi(
+        `/api/trips/${tripId}?since=${encodeURIComponent(data.lastReceivedAt)}`,
+        authToken
+      );
+      await expectStatus(incremental, 200);
+      const incrementalData = await incremental.json();
+      expect(incrementalData.locationUpdates.length).toBe(1);
+      expect(incrementalData.locationUpdates[0].latitude).toBe("40.7450");
+      expect(incrementalData.totalPoints).toBe(data.totalPoints + 1);
+
+      const unchanged = await authenticatedApi(
+        `/api/trips/${tripId}?since=${encodeURIComponent(incrementalData.lastReceivedAt)}`,
+        authToken
+      );
+      await expectStatus(unchanged, 200);
+      const unchangedData = await unchanged.json();
+      expect(unchangedData.locationUpdates).toHaveLength(0);
+      expect(unchangedData.lastReceivedAt).toBe(incrementalData.lastReceivedAt);
+    });
+
+    test("Get non-existent trip should fail", async () => {
+      const res = await authenticatedApi("/api/trips/00000000-0000-0000-0000-000000000000", authToken);
+      await expectStatus(res, 404);
+    });
+
+    test("Get trip stats", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/stats`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.distanceMeters).toBeGreaterThan(0);
+      expect(data.pointCount).toBeGreaterThan(1);
+      expect(data.durationSeconds).toBeGreaterThanOrEqual(0);
+      expect(data.movingSeconds).toBeLessThanOrEqual(data.durationSeconds);
+    });
+
+    test("Get stats for non-existent trip should fail", async () => {
+      const res = await authenticatedApi("/api/trips/00000000-0000-0000-0000-000000000000/stats", authToken);
+      await expectStatus(res, 404);
+    });
+
+    test("Export trip as GPX", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/export.gpx`, authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("application/gpx+xml");
+      const gpx = await res.text();
+      expect(gpx).toContain('<gpx version="1.1"');
+      expect(gpx).toContain("<trkpt");
+      expect(gpx).toContain("<type>start</type>");
+      expect(gpx).toContain("<type>sos</type>");
+    });
+
+    test("Export trip as GeoJSON", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/export.geojson`, authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("application/geo+json");
+      const data = JSON.parse(await res.text());
+      expect(data.type).toBe("FeatureCollection");
+      expect(data.features[0].geometry.type).toBe("LineString");
+      expect(data.features[0].properties.activityType).toBe("hiking");
+      const kinds = data.features.map((feature: any) => feature.properties.kind);
+      expect(kinds).toContain("start");
+      expect(kinds).toContain("sos");
+      expect(kinds).toContain("last_known");
+    });
+
+    test("Export trip as KML", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/export.kml`, authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("application/vnd.google-earth.kml+xml");
+      const kml = await res.text();
+      expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+      expect(kml).toContain("<LineString>");
+      expect(kml).toContain("<name>SOS</name>");
+    });
+
+    test("Export non-existent trip as GPX should fail", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+      const res = await authenticatedApi(`/api/trips/${nonExistentId}/export.gpx`, authToken);
+      await expectStatus(res, 404);
+    });
+
+    test("Send SOS alert for non-existent trip should fail", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+      const res = await authenticatedApi(
+        `/api/trips/${nonExistentId}/sos`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            latitude: "40.7128",
+            longitude: "-74.0060",
+          }),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+
+    test("Complete trip", async () => {
+      // A contact watching through the share link
+      const ws = await connectWebSocket(`/ws/trips/${tripId}`);
+      ws.send(shareToken);
+      expect(JSON.parse(await waitForMessage(ws)).type).toBe("authenticated");
+      const finalEvent = waitForMessage(ws);
+      const closed = new Promise((resolve) => { ws.onclose = resolve; });
+
+      const res = await authenticatedApi(
+        `/api/trips/${tripId}/complete`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBe(tripId);
+      expect(data.endTime).toBeDefined();
+      expect(data.status).toBeDefined();
+      expect(data.stats.distanceMeters).toBeGreaterThan(0);
+
+      // The share stream ends with the final status
+      const event = JSON.parse(await finalEvent);
+      expect(event.type).toBe("status");
+      expect(event.status).toBe("completed");
+      await closed;
+    });
+
+    test("Shared trip expires once completed", async () => {
+      const res = await api(`/api/share/${shareToken}`);
+      await expectStatus(res, 410);
+    });
+
+    test("Complete an already completed trip should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/complete`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Send SOS alert for completed trip should fail", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: "40.7500",
+          longitude: "-73.9900",
+        }),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Trip records each status transition", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const transitions = data.transitions.map((transition: any) => [transition.fromStatus, transition.toStatus]);
+      expect(transitions).toEqual([
+        [null, "active"],
+        ["active", "paused"],
+        ["paused", "active"],
+        ["active", "sos"],
+        ["sos", "active"],
+        ["active", "sos"],
+        ["sos", "active"],
+        ["active", "sos"],
+        ["sos", "active"],
+        ["active", "completed"],
+      ]);
+      expect(data.transitions[4].reason).toBe("False alarm: SOS cancelled by user");
+      expect(data.locationUpdates.filter((update: any) => update.isSos)).toHaveLength(3);
+      expect(data.transitions[1].reason).toBe("Camping overnight");
+      expect(data.transitions[0].createdAt).toBeDefined();
+    });
+
+    test("List trip notifications", async () => {
+      const res = await authenticatedApi(`/api/trips/${tripId}/notifications`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const eventTypes = data.notifications.map((notification: any) => notification.eventType);
+      expect(eventTypes[0]).toBe("trip_started");
+      expect(eventTypes).toContain("sos");
+      expect(eventTypes).toContain("sos_cancelled");
+      expect(eventTypes[eventTypes.length - 1]).toBe("trip_completed");
+      expect(data.notifications[0].contactName).toBeDefined();
+      expect(data.notifications[0].status).toBe("sent");
+      expect(data.notifications[0].attempts).toBe(1);
+    });
+
+    test("List notifications for non-existent trip should fail", async () => {
+      const res = await authenticatedApi("/api/trips/00000000-0000-0000-0000-000000000000/notifications", authToken);
+      await expectStatus(res, 404);
+    });
+
+    test("Cancel a trip", async () => {
+      const start = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "biking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+        }),
+      });
+      await expectStatus(start, 201);
+      const started = await start.json();
+
+      const cancel = await authenticatedApi(`/api/trips/${started.id}/cancel`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: "Weather turned" }),
+      });
+      await expectStatus(cancel, 200);
+      const cancelled = await cancel.json();
+      expect(cancelled.status).toBe("cancelled");
+      expect(cancelled.endTime).not.toBeNull();
+      expect(cancelled.stats.distanceMeters).toBe(0);
+
+      const resolve = await authenticatedApi(`/api/trips/${started.id}/resolve`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(resolve, 409);
+    });
+
+    test("Resolve an SOS with the safety PIN", async () => {
+      const start = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: secondaryContactId }],
+          activityType: "climbing",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+        }),
+      });
+      await expectStatus(start, 201);
+      const started = await start.json();
+
+      const sos = await authenticatedApi(`/api/trips/${started.id}/sos`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ latitude: "40.7130", longitude: "-74.0050" }),
+      });
+      await expectStatus(sos, 200);
+
+      const wrongPin = await authenticatedApi(`/api/trips/${started.id}/resolve`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "1111" }),
+      });
+      await expectStatus(wrongPin, 403);
+
+      const resolve = await authenticatedApi(`/api/trips/${started.id}/resolve`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "2468", reason: "Rescued by mountain rescue" }),
+      });
+      await expectStatus(resolve, 200);
+      const resolved = await resolve.json();
+      expect(resolved.status).toBe("resolved");
+      expect(resolved.endTime).not.toBeNull();
+
+      // Contacts hear that the emergency is over, not that it was a false alarm
+      const notifications = await authenticatedApi(`/api/trips/${started.id}/notifications`, authToken);
+      await expectStatus(notifications, 200);
+      const data = await notifications.json();
+      const eventTypes = data.notifications.map((notification: any) => notification.eventType);
+      expect(eventTypes).toContain("alert_resolved");
+      expect(eventTypes).not.toContain("sos_cancelled");
+    });
+
+    test("Complete non-existent trip should fail", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+      const res = await authenticatedApi(
+        `/api/trips/${nonExistentId}/complete`,
+        authToken,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+  });
+
+  // ========== Safety PIN Lockout ==========
+  describe("Safety PIN lockout", () => {
+    let lockoutToken: string;
+
+    test("Set safety PIN for a new user", async () => {
+      const { token } = await signUpTestUser();
+      lockoutToken = token;
+      const res = await authenticatedApi("/api/safety-pin", lockoutToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin: "8642", password: "TestPassword123!" }),
+      });
+      await expectStatus(res, 200);
+    });
+
+    test("Too many wrong PINs lock out even the right one", async () => {
+      const removePin = (pin: string) => authenticatedApi("/api/safety-pin", lockoutToken, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin }),
+      });
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expectStatus(await removePin("0000"), 403);
+      }
+      await expectStatus(await removePin("0000"), 429);
+      await expectStatus(await removePin("8642"), 429);
+    });
+  });
+
+  // ========== Route Deviation ==========
+  describe("Route deviation", () => {
+    let routeTripId: string;
+    let routeContactId: string;
+
+    // Device timestamps may only be a few minutes ahead of the server, so
+    // these fixes stay within the off-route window; the window itself is
+    // covered in route-deviation.test.ts
+    const fixAt = (latitude: string, longitude: string, minutes: number) => ({
+      latitude,
+      longitude,
+      timestamp: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+    });
+
+    const countAlerts = async () => {
+      const res = await authenticatedApi(`/api/trips/${routeTripId}/notifications`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      return data.notifications.filter((notification: any) => notification.eventType === "possibly_lost").length;
+    };
+
+    test("Start a trip on the planned route", async () => {
+      const contact = await authenticatedApi("/api/emergency-contacts", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Route Watcher", phoneNumber: "+1333333333" }),
+      });
+      await expectStatus(contact, 201);
+      routeContactId = (await contact.json()).id;
+
+      const res = await authenticatedApi("/api/trips/start", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emergencyContacts: [{ id: routeContactId }],
+          activityType: "hiking",
+          latitude: "40.7128",
+          longitude: "-74.0060",
+          plannedRouteId,
+        }),
+      });
+      await expectStatus(res, 201);
+      routeTripId = (await res.json()).id;
+    });
+
+    test("Straying off the planned route briefly does not raise an alert", async () => {
+      const res = await authenticatedApi(`/api/trips/${routeTripId}/locations`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          locations: [fixAt("40.6500", "-73.9500", 1), fixAt("40.6510", "-73.9490", 2)],
+        }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.accepted).toBe(2);
+      expect(data.status).toBe("active");
+      expect(await countAlerts()).toBe(0);
+    });
+
+    test("Coming back on the planned route keeps the trip active", async () => {
+      const res = await authenticatedApi(`/api/trips/${routeTripId}/locations`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locations: [fixAt("40.7300", "-73.9990", 3)] }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.status).toBe("active");
+      expect(data.lastLatitude).toBe("40.7300");
+      expect(await countAlerts()).toBe(0);
+    });
+
+    test("Complete the trip on the planned route", async () => {
+      const res = await authenticatedApi(`/api/trips/${routeTripId}/complete`, authToken, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      await expectStatus(res, 200);
+    });
+  });
+
+  // ========== Alert Acknowledgements ==========
+  describe("Acknowledgements", () => {
+    test("Acknowledge with unknown token should fail", async () => {
+      const res = await api(
+        "/api/acknowledge/00000000-0000-0000-0000-000000000000",
+        { method: "POST" }
+      );
+      await expectStatus(res, 404);
+    });
+
+    test("Acknowledge with malformed token should fail", async () => {
+      const res = await api("/api/acknowledge/not-a-token", { method: "POST" });
+      await expectStatus(res, 400);
+    });
+  });
+
+  // ========== Authentication Tests ==========
+  describe("SMS webhooks", () => {
+    test("SMS status callback without a valid signature should fail", async () => {
+      const res = await api("/api/webhooks/sms/status", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "X-Twilio-Signature": "invalid",
+        },
+        body: new URLSearchParams({ MessageSid: "SM00000000000000000000000000000000", MessageStatus: "delivered" }).toString(),
+      });
+      await expectStatus(res, 403);
+    });
+
+    test("Inbound SMS without a valid signature should fail", async () => {
+      const res = await api("/api/webhooks/sms/inbound", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "X-Twilio-Signature": "invalid",
+        },
+        body: new URLSearchParams({ From: "+15550000000", Body: "WHERE" }).toString(),
+      });
+      await expectStatus(res, 403);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("Accessing emergency contacts without auth should fail", async () => {
+      const res = await api("/api/emergency-contacts");
+      await expectStatus(res, 401);
+    });
+
+    test("Accessing trips without auth should fail", async () => {
+      const res = await api("/api/trips");
+      await expectStatus(res, 401);
+    });
+
+    test("Accessing active trip without auth should fail", async () => {
+      const res = await api("/api/trips/active");
+      await expectStatus(res, 401);
+    });
+
+    test("Exporting trip without auth should fail", async () => {
+      const res = await api("/api/trips/00000000-0000-0000-0000-000000000000/export.gpx");
+      await expectStatus(res, 401);
+    });
+
+    test("Listing trip notifications without auth should fail", async () => {
+      const res = await api("/api/trips/00000000-0000-0000-0000-000000000000/notifications");
+      await expectStatus(res, 401);
+    });
+
+    test("Listing message templates without auth should fail", async () => {
+      const res = await api("/api/message-templates");
+      await expectStatus(res, 401);
+    });
+
+    test("Registering push token without auth should fail", async () => {
+      const res = await api("/api/push-tokens", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: "ExponentPushToken[integration-test]" }),
+      });
       await expectStatus(res, 401);
     });
 
@@ -324,7 +1867,7 @@ describe("API Integration Tests", () => {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          emergencyContactId: "00000000-0000-0000-0000-000000000000",
+          emergencyContacts: [{ id: "00000000-0000-0000-0000-000000000000" }],
           activityType: "hiking",
           latitude: "40.7128",
           longitude: "-74.0060",
@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import { type LonLat, haversineDistance, lineLength, routeLength, distanceToLine, distanceToRoute } from "../src/utils/geo";
+import { OFF_ROUTE_DISTANCE_METERS, OFF_ROUTE_MINUTES, trackRouteDeviation } from "../src/utils/route-deviation";
+
+// About 1.1 km east along the equator
+const route: LonLat[] = [[0, 0], [0.01, 0]];
+
+const fixAt = (longitude: number, latitude: number, minutes: number) => ({
+  latitude: String(latitude),
+  longitude: String(longitude),
+  timestamp: new Date(Date.UTC(2026, 0, 1, 12, minutes)),
+});
+
+describe("Geometry", () => {
+  test("Haversine distance of one degree of latitude", () => {
+    expect(haversineDistance([0, 0], [0, 1])).toBeCloseTo(111195, 0);
+    expect(haversineDistance([10, 45], [10, 45])).toBe(0);
+  });
+
+  test("Line length adds up its segments", () => {
+    const length = lineLength([[0, 0], [0.01, 0], [0.01, 0.01]]);
+    expect(length).toBeCloseTo(2 * haversineDistance([0, 0], [0.01, 0]), 0);
+  });
+
+  test("Distance to a line from a point beside a segment", () => {
+    expect(distanceToLine([0.005, 0.001], route)).toBeCloseTo(111.2, 0);
+    expect(distanceToLine([0.005, -0.001], route)).toBeCloseTo(111.2, 0);
+  });
+
+  test("Distance to a line from a point on it is zero", () => {
+    expect(distanceToLine([0.005, 0], route)).toBeCloseTo(0, 6);
+  });
+
+  test("Distance to a line from a point past its end is the distance to the end", () => {
+    expect(distanceToLine([0.02, 0], route)).toBeCloseTo(haversineDistance([0.02, 0], [0.01, 0]), 0);
+  });
+
+  test("Distance to a line uses its nearest segment", () => {
+    const bend: LonLat[] = [[0, 0], [0.01, 0], [0.01, 0.01]];
+    expect(distanceToLine([0.011, 0.005], bend)).toBeCloseTo(111.2, 0);
+  });
+
+  test("Distance to a line of one point or with repeated points", () => {
+    expect(distanceToLine([0, 0.001], [[0, 0]])).toBeCloseTo(111.2, 0);
+    expect(distanceToLine([0, 0.001], [[0, 0], [0, 0]])).toBeCloseTo(111.2, 0);
+    expect(distanceToLine([0, 0], [])).toBe(Infinity);
+  });
+
+  test("A route of separate lines has no segment across the gap between them", () => {
+    const parts: LonLat[][] = [route, [[0.02, 0], [0.03, 0]]];
+    expect(routeLength(parts)).toBeCloseTo(2 * lineLength(route), 0);
+    expect(distanceToRoute([0.015, 0], parts)).toBeCloseTo(haversineDistance([0.015, 0], [0.01, 0]), 0);
+    expect(distanceToRoute([0.025, 0.001], parts)).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe("Route deviation", () => {
+  const offRouteLatitude = 0.01;
+
+  test("Fixes near the route are on route", () => {
+    const deviation = trackRouteDeviation([route], null, [fixAt(0.002, 0.001, 0), fixAt(0.004, 0, 1)]);
+    expect(deviation.offRouteSince).toBeNull();
+    expect(deviation.possiblyLost).toBe(false);
+    expect(deviation.distanceMeters).toBeLessThan(OFF_ROUTE_DISTANCE_METERS);
+  });
+
+  test("A short stray off the route is not yet possibly lost", () => {
+    const first = fixAt(0.005, offRouteLatitude, 0);
+    const deviation = trackRouteDeviation([route], null, [first, fixAt(0.005, offRouteLatitude, OFF_ROUTE_MINUTES - 1)]);
+    expect(deviation.offRouteSince).toEqual(first.timestamp);
+    expect(deviation.possiblyLost).toBe(false);
+    expect(deviation.distanceMeters).toBeGreaterThan(OFF_ROUTE_DISTANCE_METERS);
+  });
+
+  test("Staying off the route for the whole window is possibly lost", () => {
+    const first = fixAt(0.005, offRouteLatitude, 0);
+    const deviation = trackRouteDeviation([route], null, [first, fixAt(0.006, offRouteLatitude, OFF_ROUTE_MINUTES)]);
+    expect(deviation.offRouteSince).toEqual(first.timestamp);
+    expect(deviation.possiblyLost).toBe(true);
+  });
+
+  test("The off-route stretch carries over from earlier fixes", () => {
+    const since = fixAt(0, 0, 0).timestamp;
+    const deviation = trackRouteDeviation([route], since, [fixAt(0.005, offRouteLatitude, OFF_ROUTE_MINUTES + 1)]);
+    expect(deviation.offRouteSince).toEqual(since);
+    expect(deviation.possiblyLost).toBe(true);
+  });
+
+  test("Coming back on route ends the off-route stretch", () => {
+    const since = fixAt(0, 0, 0).timestamp;
+    const deviation = trackRouteDeviation([route], since, [
+      fixAt(0.005, offRouteLatitude, OFF_ROUTE_MINUTES + 1),
+      fixAt(0.005, 0, OFF_ROUTE_MINUTES + 2),
+    ]);
+    expect(deviation.offRouteSince).toBeNull();
+    expect(deviation.possiblyLost).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FastifyBaseLogger } from "fastify";
+
+const outboxDir = await mkdtemp(join(tmpdir(), "sms-outbox-"));
+const outboxFile = join(outboxDir, "outbox.jsonl");
+
+// Twilio is listed without its settings, so the chain is Vonage then the file
+process.env.SMS_TRANSPORTS = "twilio,vonage,file";
+process.env.SMS_OUTBOX_FILE = outboxFile;
+process.env.VONAGE_API_KEY = "key";
+process.env.VONAGE_API_SECRET = "secret";
+process.env.VONAGE_FROM_NUMBER = "15550000000";
+delete process.env.TWILIO_ACCOUNT_SID;
+
+const { smsTransports } = await import("../src/utils/sms-transports");
+const { sendSMS } = await import("../src/utils/sms");
+const { createTransportChain } = await import("../src/utils/transport-chain");
+
+const errors: string[] = [];
+const logger = {
+  info() {},
+  warn() {},
+  error(_context: unknown, message: string) {
+    errors.push(message);
+  },
+} as unknown as FastifyBaseLogger;
+
+const realFetch = globalThis.fetch;
+let vonageRequests: any[] = [];
+
+function stubVonage(response: () => Response) {
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    vonageRequests.push(JSON.parse(String(init.body)));
+    return response();
+  }) as typeof fetch;
+}
+
+async function readOutbox(): Promise<any[]> {
+  const content = await readFile(outboxFile, "utf8").catch(() => "");
+  return content.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+}
+
+beforeEach(async () => {
+  vonageRequests = [];
+  await rm(outboxFile, { force: true });
+});
+
+afterAll(async () => {
+  globalThis.fetch = realFetch;
+  await rm(outboxDir, { recursive: true, force: true });
+});
+
+describe("SMS transports", () => {
+  test("Misconfigured transports are left out of the chain", () => {
+    const names = smsTransports.getTransports(logger).map((transport) => transport.name);
+    expect(names).toEqual(["vonage", "file"]);
+    expect(errors).toContain("SMS transport not available");
+  });
+
+  test("Send through the first transport that works", async () => {
+    stubVonage(() => Response.json({ messages: [{ status: "0", "message-id": "abc123" }] }));
+    const result = await sendSMS("+15551234567", "Trip started", logger);
+    expect(result).toEqual({ transport: "vonage", messageId: "abc123" });
+    expect(vonageRequests[0].to).toBe("15551234567");
+    expect(await readOutbox()).toHaveLength(0);
+  });
+
+  test("Vonage sends GSM-7 text as text and anything else as unicode", async () => {
+    stubVonage(() => Response.json({ messages: [{ status: "0" }] }));
+    await sendSMS("+15551234567", "SOS near Lake Ödla", logger);
+    await sendSMS("+15551234567", "SOS ±12 m", logger);
+    expect(vonageRequests.map((request) => request.type)).toEqual(["text", "unicode"]);
+  });
+
+  test("Fall back to the next transport when one fails", async () => {
+    stubVonage(() => new Response("Unavailable", { status: 503 }));
+    const result = await sendSMS("+15551234567", "Trip overdue", logger);
+    expect(result.transport).toBe("file");
+    expect(vonageRequests).toHaveLength(1);
+
+    const outbox = await readOutbox();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].to).toBe("+15551234567");
+    expect(outbox[0].body).toBe("Trip overdue");
+  });
+
+  test("Fall back when the provider rejects the message", async () => {
+    stubVonage(() => Response.json({ messages: [{ status: "4", "error-text": "Bad credentials" }] }));
+    const result = await sendSMS("+15551234567", "Trip overdue", logger);
+    expect(result.transport).toBe("file");
+  });
+
+  test("Throw when every transport fails", async () => {
+    stubVonage(() => new Response("Unavailable", { status: 503 }));
+    // A directory in place of the outbox file makes the file transport fail too
+    await mkdir(outboxFile);
+    try {
+      await expect(sendSMS("+15551234567", "Trip overdue", logger)).rejects.toThrow();
+    } finally {
+      await rm(outboxFile, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Optional channels", () => {
+  const createChain = (optional: boolean) => createTransportChain<string>({
+    channel: "Test",
+    envName: "TEST_TRANSPORTS",
+    defaultNames: () => [],
+    createTransport: () => {
+      throw new Error("No providers");
+    },
+    outboxFile,
+    describe: () => ({}),
+    toRecord: (message) => ({ message }),
+    optional,
+  });
+
+  const inProduction = <T>(run: () => T): T => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      return run();
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  };
+
+  test("A required channel without transports stops the app in production", () => {
+    expect(() => inProduction(() => createChain(false).getTransports(logger))).toThrow();
+  });
+
+  test("An optional channel without transports is turned off in production", async () => {
+    const chain = createChain(true);
+    expect(inProduction(() => chain.isEnabled(logger))).toBe(false);
+    await expect(chain.send("Trip overdue", logger)).rejects.toThrow();
+  });
+});
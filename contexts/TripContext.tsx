@@ -7,24 +7,41 @@ interface EmergencyContact {
   phoneNumber: string;
 }
 
-interface ActiveTrip {
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  time: string;
+  kind: 'start' | 'checkin' | 'sos';
+}
+
+export interface ActiveTrip {
   id: string;
   activityType: string;
   startTime: string;
   status: string;
   lastLatitude: number;
   lastLongitude: number;
-  emergencyContact: {
+  emergencyContacts: {
     name: string;
     phoneNumber: string;
-  };
+    tier: number;
+  }[];
   clothingDescription: string;
   vehicleDescription: string;
+  plannedRoute: string;
+  checkInIntervalMinutes: number | null;
+  lastCheckInTime: string;
+  // Needed to cancel an SOS; only ever held in memory
+  safetyPin: string;
+  // Every position sent to contacts, oldest first, for GPX export
+  track: TrackPoint[];
 }
 
 interface TripContextType {
   activeTrip: ActiveTrip | null;
   elapsedTime: number;
+  checkInRemaining: number | null;
   setActiveTrip: (trip: ActiveTrip | null) => void;
   emergencyContacts: EmergencyContact[];
   setEmergencyContacts: (contacts: EmergencyContact[]) => void;
@@ -43,6 +60,7 @@ export function useTripContext() {
 export function TripProvider({ children }: { children: ReactNode }) {
   const [activeTrip, setActiveTrip] = useState<ActiveTrip | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [checkInRemaining, setCheckInRemaining] = useState<number | null>(null);
   const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([]);
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -69,6 +87,10 @@ export function TripProvider({ children }: { children: ReactNode }) {
           return;
         }
         
+        const checkInDueTime = activeTrip.checkInIntervalMinutes
+          ? new Date(activeTrip.lastCheckInTime).getTime() + activeTrip.checkInIntervalMinutes * 60 * 1000
+          : null;
+        
         const updateTimer = () => {
           const now = Date.now();
           const elapsed = Math.floor((now - startTime) / 1000);
@@ -80,6 +102,13 @@ export function TripProvider({ children }: { children: ReactNode }) {
             console.error('[TripContext] Negative elapsed time calculated');
             setElapsedTime(0);
           }
+          
+          // Seconds until the next required check-in; negative once it is missed
+          if (checkInDueTime !== null && !Number.isNaN(checkInDueTime)) {
+            setCheckInRemaining(Math.floor((checkInDueTime - now) / 1000));
+          } else {
+            setCheckInRemaining(null);
+          }
         };
         
         // Update immediately
@@ -102,6 +131,7 @@ export function TripProvider({ children }: { children: ReactNode }) {
     } else {
       console.log('[TripContext] No active trip, timer not started');
       setElapsedTime(0);
+      setCheckInRemaining(null);
     }
   }, [activeTrip]);
 
@@ -110,6 +140,7 @@ export function TripProvider({ children }: { children: ReactNode }) {
       value={{
         activeTrip,
         elapsedTime,
+        checkInRemaining,
         setActiveTrip,
         emergencyContacts,
         setEmergencyContacts,
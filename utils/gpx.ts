@@ -0,0 +1,61 @@
+import type { ActiveTrip, TrackPoint } from "@/contexts/TripContext";
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const WAYPOINT_NAMES: Record<TrackPoint["kind"], string> = {
+  start: "Start",
+  checkin: "Check-in",
+  sos: "SOS",
+};
+
+const pointBody = (point: TrackPoint): string => {
+  const elevation = point.altitude !== null ? `<ele>${point.altitude}</ele>` : "";
+  return `${elevation}<time>${new Date(point.time).toISOString()}</time>`;
+};
+
+/**
+ * Build a GPX 1.1 document from the positions recorded during a trip, with
+ * waypoints for the start, every SOS and the last known position.
+ */
+export const buildTripGpx = (trip: ActiveTrip): string => {
+  const title = escapeXml(`${trip.activityType} trip ${trip.startTime.slice(0, 10)}`);
+  const last = trip.track[trip.track.length - 1];
+
+  const waypoints = [
+    ...trip.track
+      .filter((point) => point.kind !== "checkin")
+      .map((point) => ({ point, name: WAYPOINT_NAMES[point.kind] })),
+    ...(trip.track.length > 1 ? [{ point: last, name: "Last known position" }] : []),
+  ]
+    .map(({ point, name }) =>
+      `  <wpt lat="${point.latitude}" lon="${point.longitude}">${pointBody(point)}<name>${name}</name></wpt>`
+    )
+    .join("\n");
+
+  const trackPoints = trip.track
+    .map((point) => `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${pointBody(point)}</trkpt>`)
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Trail Tracker" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${title}</name>
+    <time>${new Date(trip.startTime).toISOString()}</time>
+  </metadata>
+${waypoints}
+  <trk>
+    <name>${title}</name>
+    <type>${escapeXml(trip.activityType)}</type>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+};